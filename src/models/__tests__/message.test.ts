@@ -1,5 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
+import { createHash, randomBytes } from "crypto";
+
 import * as azureStorage from "azure-storage";
 import { isLeft, isRight, left, right } from "fp-ts/lib/Either";
 import { isSome } from "fp-ts/lib/Option";
@@ -9,12 +11,20 @@ import { FiscalCode } from "../../../generated/definitions/FiscalCode";
 import { MessageBodyMarkdown } from "../../../generated/definitions/MessageBodyMarkdown";
 import { MessageContent } from "../../../generated/definitions/MessageContent";
 
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 
 import { fromNullable, none, some } from "fp-ts/lib/Option";
 
+import { array } from "fp-ts/lib/Array";
+import { taskEitherSeq } from "fp-ts/lib/TaskEither";
+import { createInMemoryContainer } from "../../utils/cosmosdb_in_memory";
+import { getInMemoryKeyProvider } from "../../utils/encryption";
 import {
+  IFindInboxMessagesOptions,
+  MAX_ATTACHMENT_SIZE,
   MessageModel,
+  NewMessage,
   NewMessageWithContent,
   RetrievedMessageWithContent
 } from "../message";
@@ -148,6 +158,188 @@ describe("findMessages", () => {
   });
 });
 
+describe("findInboxMessages", () => {
+  beforeEach(() => {
+    // the other tests spy on the async utilities
+    jest.restoreAllMocks();
+  });
+
+  const aMessage = (
+    id: string,
+    createdAt: string,
+    other: Partial<NewMessageWithContent> = {}
+  ): NewMessageWithContent => ({
+    ...aNewMessageWithContent,
+    createdAt: new Date(createdAt),
+    id: id as NonEmptyString,
+    indexedId: id as NonEmptyString,
+    ...other
+  });
+
+  const getModel = async (): Promise<MessageModel> => {
+    const model = new MessageModel(
+      createInMemoryContainer("/fiscalCode"),
+      MESSAGE_CONTAINER_NAME
+    );
+    await array
+      .traverse(taskEitherSeq)(
+        [
+          aMessage("01", "2020-01-01T00:00:00.000Z"),
+          aMessage("02", "2020-01-02T00:00:00.000Z", { isPending: false }),
+          aMessage("03", "2020-01-03T00:00:00.000Z", { isPending: true }),
+          aMessage("04", "2020-01-04T00:00:00.000Z", {
+            senderServiceId: "another-service" as ServiceId
+          }),
+          aMessage("05", "2020-01-05T00:00:00.000Z", {
+            fiscalCode: "AAABBB01C02D345D" as FiscalCode
+          })
+        ],
+        _ => model.create(_)
+      )
+      .run();
+    return model;
+  };
+
+  const findInboxMessageIds = async (
+    model: MessageModel,
+    options?: IFindInboxMessagesOptions
+  ): Promise<ReadonlyArray<string>> => {
+    const errorOrIterator = await model
+      .findInboxMessages(aFiscalCode, options)
+      .run();
+    const pages = await asyncI.asyncIteratorToArray(
+      errorOrIterator.getOrElseL(e => fail(e))
+    );
+    return pages
+      .map(page =>
+        page.map(_ =>
+          _.fold(
+            () => "invalid",
+            m => m.indexedId
+          )
+        )
+      )
+      .reduce((ids, page) => [...ids, ...page], []);
+  };
+
+  it("should list the messages that are not pending, from the last one", async () => {
+    expect(await findInboxMessageIds(await getModel())).toEqual([
+      "04",
+      "02",
+      "01"
+    ]);
+  });
+
+  it("should list the messages in a range of ids", async () => {
+    const model = await getModel();
+    expect(
+      await findInboxMessageIds(model, { maximumId: "04" as NonEmptyString })
+    ).toEqual(["02", "01"]);
+    expect(
+      await findInboxMessageIds(model, {
+        maximumId: "04" as NonEmptyString,
+        minimumId: "01" as NonEmptyString
+      })
+    ).toEqual(["02"]);
+  });
+
+  it("should filter the messages by sender and creation date", async () => {
+    const model = await getModel();
+    expect(
+      await findInboxMessageIds(model, {
+        senderServiceId: aNewMessageWithContent.senderServiceId
+      })
+    ).toEqual(["02", "01"]);
+    expect(
+      await findInboxMessageIds(model, {
+        createdFrom: new Date("2020-01-02T00:00:00.000Z"),
+        createdTo: new Date("2020-01-04T00:00:00.000Z")
+      })
+    ).toEqual(["02"]);
+  });
+
+  it("should return the messages in pages", async () => {
+    const errorOrIterator = await (await getModel())
+      .findInboxMessages(aFiscalCode, { pageSize: 2 })
+      .run();
+    const pages = await asyncI.asyncIteratorToArray(
+      errorOrIterator.getOrElseL(e => fail(e))
+    );
+    expect(pages.map(_ => _.length)).toEqual([2, 1]);
+  });
+});
+
+describe("scheduled messages", () => {
+  beforeEach(() => {
+    // the other tests spy on the async utilities
+    jest.restoreAllMocks();
+  });
+
+  const aCreationDate = "2020-01-01T00:00:00.000Z";
+  const aScheduledMessage = (id: string, scheduledAt: string) => ({
+    ...aSerializedNewMessageWithContent,
+    createdAt: aCreationDate,
+    id,
+    indexedId: id,
+    kind: "INewMessageWithContent",
+    scheduledAt
+  });
+
+  it("should accept a message scheduled within its time to live", () => {
+    expect(
+      isRight(
+        NewMessage.decode(aScheduledMessage("01", "2020-01-01T01:00:00.000Z"))
+      )
+    ).toBeTruthy();
+  });
+
+  it.each(["2019-12-31T23:00:00.000Z", "2020-01-01T01:00:01.000Z"])(
+    "should reject a message scheduled at %s",
+    scheduledAt => {
+      expect(
+        isLeft(NewMessage.decode(aScheduledMessage("01", scheduledAt)))
+      ).toBeTruthy();
+    }
+  );
+
+  it("should find the messages scheduled in a time window", async () => {
+    const model = new MessageModel(
+      createInMemoryContainer("/fiscalCode"),
+      MESSAGE_CONTAINER_NAME
+    );
+    await array
+      .traverse(taskEitherSeq)(
+        [
+          aScheduledMessage("01", "2020-01-01T00:30:00.000Z"),
+          aScheduledMessage("02", "2020-01-01T00:10:00.000Z"),
+          aScheduledMessage("03", "2020-01-01T00:50:00.000Z"),
+          { ...aSerializedNewMessageWithContent, id: "04", indexedId: "04" }
+        ],
+        _ =>
+          model.create(
+            NewMessage.decode(_).getOrElseL(e => fail(readableReport(e)))
+          )
+      )
+      .run();
+
+    const errorOrIterator = await model
+      .findMessagesScheduledBetween(
+        new Date("2020-01-01T00:00:00.000Z"),
+        new Date("2020-01-01T00:50:00.000Z")
+      )
+      .run();
+    const pages = await asyncI.asyncIteratorToArray(
+      errorOrIterator.getOrElseL(e => fail(e))
+    );
+
+    expect(
+      pages
+        .reduce((messages, page) => [...messages, ...page], [])
+        .map(_ => _.map(m => m.id).value)
+    ).toEqual(["02", "01"]);
+  });
+});
+
 describe("findMessageForRecipient", () => {
   it("should return the messages if the recipient matches", async () => {
     const readMock = jest.fn().mockResolvedValueOnce(
@@ -347,3 +539,438 @@ describe("getContentFromBlob", () => {
     getBlobAsTextSpy.mockReset();
   });
 });
+
+describe("encrypted message contents", () => {
+  const aMessageId = "MESSAGE_ID";
+  const blobServiceMock = {};
+  const containerMock = ({} as unknown) as Container;
+  const anOldKeyId = "key-1" as NonEmptyString;
+  const aKeyId = "key-2" as NonEmptyString;
+  const someKeys = new Map([
+    [anOldKeyId, randomBytes(32)],
+    [aKeyId, randomBytes(32)]
+  ]);
+
+  // stores the blobs in memory
+  const useBlobStorageMock = (blobs: Map<string, string>): void => {
+    jest
+      .spyOn(azureStorageUtils, "upsertBlobFromObject")
+      .mockImplementation(async (_, __, blobName, content) => {
+        blobs.set(blobName, JSON.stringify(content));
+        return right(none);
+      });
+    jest
+      .spyOn(azureStorageUtils, "getBlobAsText")
+      .mockImplementation(async (_, __, blobName) =>
+        right(fromNullable(blobs.get(blobName)))
+      );
+  };
+
+  it("should store the content encrypted and read it back", async () => {
+    const blobs = new Map<string, string>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      containerMock,
+      MESSAGE_CONTAINER_NAME,
+      getInMemoryKeyProvider(someKeys, aKeyId)
+    );
+
+    await model
+      .storeContentAsBlob(blobServiceMock as any, aMessageId, aMessageContent)
+      .run();
+    const stored = JSON.parse(blobs.get(`${aMessageId}.json`) as string);
+    expect(stored).toHaveProperty("keyId", aKeyId);
+    expect(stored).not.toHaveProperty("subject");
+
+    const result = await model
+      .getContentFromBlob(blobServiceMock as any, aMessageId)
+      .run();
+    expect(result.value).toEqual(some(aMessageContent));
+  });
+
+  it("should fail to read a content swapped with the one of another message", async () => {
+    const blobs = new Map<string, string>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      containerMock,
+      MESSAGE_CONTAINER_NAME,
+      getInMemoryKeyProvider(someKeys, aKeyId)
+    );
+    await model
+      .storeContentAsBlob(blobServiceMock as any, aMessageId, aMessageContent)
+      .run();
+    await model
+      .storeContentAsBlob(
+        blobServiceMock as any,
+        "ANOTHER_MESSAGE_ID",
+        aMessageContent
+      )
+      .run();
+    const aBlob = blobs.get(`${aMessageId}.json`) as string;
+    blobs.set(
+      `${aMessageId}.json`,
+      blobs.get("ANOTHER_MESSAGE_ID.json") as string
+    );
+    blobs.set("ANOTHER_MESSAGE_ID.json", aBlob);
+
+    const results = [
+      await model.getContentFromBlob(blobServiceMock as any, aMessageId).run(),
+      await model
+        .getContentFromBlob(blobServiceMock as any, "ANOTHER_MESSAGE_ID")
+        .run()
+    ];
+    expect(isLeft(results[0])).toBeTruthy();
+    expect(isLeft(results[1])).toBeTruthy();
+  });
+
+  it("should fail to read an encrypted content without a key provider", async () => {
+    const blobs = new Map<string, string>();
+    useBlobStorageMock(blobs);
+    await new MessageModel(
+      containerMock,
+      MESSAGE_CONTAINER_NAME,
+      getInMemoryKeyProvider(someKeys, aKeyId)
+    )
+      .storeContentAsBlob(blobServiceMock as any, aMessageId, aMessageContent)
+      .run();
+
+    const result = await new MessageModel(containerMock, MESSAGE_CONTAINER_NAME)
+      .getContentFromBlob(blobServiceMock as any, aMessageId)
+      .run();
+    expect(isLeft(result)).toBeTruthy();
+  });
+
+  it("should re-encrypt contents with the current key", async () => {
+    const blobs = new Map<string, string>([
+      ["PLAIN_MESSAGE_ID.json", JSON.stringify(aMessageContent)]
+    ]);
+    useBlobStorageMock(blobs);
+    await new MessageModel(
+      containerMock,
+      MESSAGE_CONTAINER_NAME,
+      getInMemoryKeyProvider(someKeys, anOldKeyId)
+    )
+      .storeContentAsBlob(blobServiceMock as any, aMessageId, aMessageContent)
+      .run();
+    const model = new MessageModel(
+      containerMock,
+      MESSAGE_CONTAINER_NAME,
+      getInMemoryKeyProvider(someKeys, aKeyId)
+    );
+
+    for (const messageId of [aMessageId, "PLAIN_MESSAGE_ID"]) {
+      expect(
+        (
+          await model
+            .reEncryptContentBlob(blobServiceMock as any, messageId)
+            .run()
+        ).value
+      ).toBe(true);
+      expect(
+        JSON.parse(blobs.get(`${messageId}.json`) as string)
+      ).toHaveProperty("keyId", aKeyId);
+      expect(
+        (
+          await model
+            .getContentFromBlob(blobServiceMock as any, messageId)
+            .run()
+        ).value
+      ).toEqual(some(aMessageContent));
+    }
+
+    const again = await model
+      .reEncryptContentBlob(blobServiceMock as any, aMessageId)
+      .run();
+    expect(again.value).toBe(false);
+  });
+});
+
+describe("message attachments", () => {
+  const aMessageId = "MESSAGE_ID";
+  const blobServiceMock = {};
+  const model = new MessageModel(
+    ({} as unknown) as Container,
+    MESSAGE_CONTAINER_NAME
+  );
+  const aFile = {
+    content: Buffer.from("%PDF-1.4 a receipt"),
+    contentType: "application/pdf",
+    name: "receipt.pdf"
+  };
+
+  // stores the blobs in memory
+  const useBlobStorageMock = (blobs: Map<string, Buffer>): void => {
+    jest
+      .spyOn(azureStorageUtils, "upsertBlobFromText")
+      .mockImplementation(async (_, __, blobName, content) => {
+        blobs.set(
+          blobName,
+          typeof content === "string" ? Buffer.from(content) : content
+        );
+        return right(none);
+      });
+    jest
+      .spyOn(azureStorageUtils, "getBoundedBlobAsBuffer")
+      .mockImplementation(async (_, __, blobName) =>
+        right(fromNullable(blobs.get(blobName)))
+      );
+  };
+
+  it("should store the attachments and read them back", async () => {
+    const blobs = new Map<string, Buffer>();
+    useBlobStorageMock(blobs);
+
+    const attachments = (
+      await model
+        .storeAttachmentsAsBlobs(blobServiceMock as any, aMessageId, [aFile])
+        .run()
+    ).getOrElseL(e => fail(e));
+
+    expect(attachments).toEqual([
+      {
+        content_type: "application/pdf",
+        name: "receipt.pdf",
+        sha256: createHash("sha256")
+          .update(aFile.content)
+          .digest("hex"),
+        size: aFile.content.length
+      }
+    ]);
+    expect(
+      MessageContent.decode({ ...aMessageContent, attachments }).isRight()
+    ).toBeTruthy();
+
+    const content = await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+    expect(content.value).toEqual(some(aFile.content));
+  });
+
+  it("should fail reading an attachment which does not match its hash", async () => {
+    const blobs = new Map<string, Buffer>();
+    useBlobStorageMock(blobs);
+    const attachments = (
+      await model
+        .storeAttachmentsAsBlobs(blobServiceMock as any, aMessageId, [aFile])
+        .run()
+    ).getOrElseL(e => fail(e));
+    blobs.forEach((_, blobName) =>
+      blobs.set(blobName, Buffer.from("%PDF-1.4 a forged receipt"))
+    );
+
+    const content = await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+    expect(isLeft(content)).toBeTruthy();
+  });
+
+  it.each([
+    ["too many files", Array(6).fill(aFile)],
+    [
+      "a file larger than 10MB",
+      [aFile, { ...aFile, content: Buffer.alloc(10 * 1024 * 1024 + 1) }]
+    ],
+    ["an empty file", [aFile, { ...aFile, content: Buffer.alloc(0) }]]
+  ])("should reject %s", async (_, files) => {
+    const blobs = new Map<string, Buffer>();
+    useBlobStorageMock(blobs);
+
+    const result = await model
+      .storeAttachmentsAsBlobs(blobServiceMock as any, aMessageId, files)
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+    expect(blobs.size).toBe(0);
+  });
+});
+
+describe("encrypted message attachments", () => {
+  const aMessageId = "MESSAGE_ID";
+  const blobServiceMock = {};
+  const aKeyId = "key-1" as NonEmptyString;
+  const aKeyProvider = getInMemoryKeyProvider(
+    new Map([[aKeyId, randomBytes(32)]]),
+    aKeyId
+  );
+  const aFile = {
+    content: Buffer.from("%PDF-1.4 a receipt"),
+    contentType: "application/pdf",
+    name: "receipt.pdf"
+  };
+
+  // stores the blobs in memory, as objects or as bytes
+  const useBlobStorageMock = (blobs: Map<string, string | Buffer>): void => {
+    jest
+      .spyOn(azureStorageUtils, "upsertBlobFromObject")
+      .mockImplementation(async (_, __, blobName, content) => {
+        blobs.set(blobName, JSON.stringify(content));
+        return right(none);
+      });
+    jest
+      .spyOn(azureStorageUtils, "upsertBoundedBlobFromObject")
+      .mockImplementation(async (_, __, blobName, content) => {
+        blobs.set(blobName, JSON.stringify(content));
+        return right(none);
+      });
+    jest
+      .spyOn(azureStorageUtils, "upsertBlobFromText")
+      .mockImplementation(async (_, __, blobName, content) => {
+        blobs.set(blobName, content);
+        return right(none);
+      });
+    jest
+      .spyOn(azureStorageUtils, "getBoundedBlobAsBuffer")
+      .mockImplementation(async (_, __, blobName) =>
+        right(
+          fromNullable(blobs.get(blobName)).map(_ =>
+            typeof _ === "string" ? Buffer.from(_) : _
+          )
+        )
+      );
+  };
+
+  const storeAttachments = (model: MessageModel, messageId: string) =>
+    model
+      .storeAttachmentsAsBlobs(blobServiceMock as any, messageId, [aFile])
+      .run()
+      .then(_ => _.getOrElseL(e => fail(e)));
+
+  it("should store the attachments encrypted and read them back", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider
+    );
+
+    const attachments = await storeAttachments(model, aMessageId);
+
+    const stored = JSON.parse(blobs.values().next().value);
+    expect(stored).toHaveProperty("keyId", aKeyId);
+    expect(
+      Buffer.from(stored.ciphertext, "base64").includes(aFile.content)
+    ).toBeFalsy();
+    const content = await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+    expect(content.value).toEqual(some(aFile.content));
+  });
+
+  it("should read the attachments stored before encryption", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const attachments = await storeAttachments(
+      new MessageModel(({} as unknown) as Container, MESSAGE_CONTAINER_NAME),
+      aMessageId
+    );
+
+    const content = await new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider
+    )
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+    expect(content.value).toEqual(some(aFile.content));
+  });
+
+  it("should fail to read an attachment swapped with the one of another message", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider
+    );
+    const attachments = await storeAttachments(model, aMessageId);
+    await storeAttachments(model, "ANOTHER_MESSAGE_ID");
+    const [aBlobName, anotherBlobName] = [...blobs.keys()];
+    const aBlob = blobs.get(aBlobName) as string;
+    blobs.set(aBlobName, blobs.get(anotherBlobName) as string);
+    blobs.set(anotherBlobName, aBlob);
+
+    const content = await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+    expect(isLeft(content)).toBeTruthy();
+  });
+
+  it("should bound the attachments by their own max size", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider,
+      { compress: true, maxSize: 64 }
+    );
+
+    const attachments = await storeAttachments(model, aMessageId);
+    await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+
+    // a file of the max size, encoded and encrypted, must fit in the blob
+    const maxStoredSize = (MAX_ATTACHMENT_SIZE * 16) / 9;
+    expect(
+      azureStorageUtils.upsertBoundedBlobFromObject
+    ).toHaveBeenCalledWith(
+      blobServiceMock,
+      MESSAGE_CONTAINER_NAME,
+      expect.any(String),
+      expect.any(Object),
+      { compress: true, maxSize: expect.any(Number) }
+    );
+    const [
+      [, , , , { maxSize: storedMaxSize }]
+    ] = (azureStorageUtils.upsertBoundedBlobFromObject as jest.Mock).mock.calls;
+    expect(storedMaxSize).toBeGreaterThan(maxStoredSize);
+    expect(azureStorageUtils.getBoundedBlobAsBuffer).toHaveBeenCalledWith(
+      blobServiceMock,
+      MESSAGE_CONTAINER_NAME,
+      expect.any(String),
+      storedMaxSize
+    );
+  });
+
+  it("should read a legacy attachment downloading it once", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const attachments = await storeAttachments(
+      new MessageModel(({} as unknown) as Container, MESSAGE_CONTAINER_NAME),
+      aMessageId
+    );
+
+    await new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider
+    )
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+
+    expect(azureStorageUtils.getBoundedBlobAsBuffer).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail to read an attachment whose blob cannot be read", async () => {
+    const blobs = new Map<string, string | Buffer>();
+    useBlobStorageMock(blobs);
+    const model = new MessageModel(
+      ({} as unknown) as Container,
+      MESSAGE_CONTAINER_NAME,
+      aKeyProvider
+    );
+    const attachments = await storeAttachments(model, aMessageId);
+    jest
+      .spyOn(azureStorageUtils, "getBoundedBlobAsBuffer")
+      .mockImplementationOnce(async () => left(new Error("too large")));
+
+    const content = await model
+      .getAttachmentFromBlob(blobServiceMock as any, aMessageId, attachments[0])
+      .run();
+
+    expect(isLeft(content)).toBeTruthy();
+    expect(azureStorageUtils.getBlobAsBuffer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import { isLeft } from "fp-ts/lib/Either";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { FiscalCode } from "../../../generated/definitions/FiscalCode";
+import { createInMemoryContainer } from "../../utils/cosmosdb_in_memory";
+import {
+  applyMessageUserStatusChange,
+  getMessageUserStatusUpdater,
+  MessageUserStatus,
+  MessageUserStatusModel
+} from "../message_user_status";
+
+const aMessageId = "A_MESSAGE_ID" as NonEmptyString;
+const aFiscalCode = "FRLFRC74E04B157I" as FiscalCode;
+
+const aDate = new Date("2020-01-01T00:00:00.000Z");
+const aLaterDate = new Date("2020-01-02T00:00:00.000Z");
+
+const aMessageUserStatus: MessageUserStatus = {
+  fiscalCode: aFiscalCode,
+  isArchived: false,
+  isDeleted: false,
+  isRead: true,
+  messageId: aMessageId,
+  readAt: aDate,
+  updatedAt: aDate
+};
+
+describe("applyMessageUserStatusChange", () => {
+  it("should set the timestamp of a raised flag", () => {
+    expect(
+      applyMessageUserStatusChange(
+        aMessageUserStatus,
+        { isArchived: true },
+        aLaterDate
+      )
+    ).toEqual({
+      ...aMessageUserStatus,
+      archivedAt: aLaterDate,
+      isArchived: true,
+      updatedAt: aLaterDate
+    });
+  });
+
+  it("should remove the timestamp of a lowered flag", () => {
+    const { readAt, ...rest } = aMessageUserStatus;
+    expect(
+      applyMessageUserStatusChange(
+        aMessageUserStatus,
+        { isRead: false },
+        aLaterDate
+      )
+    ).toEqual({ ...rest, isRead: false, updatedAt: aLaterDate });
+  });
+
+  it("should return the same status if nothing changes", () => {
+    expect(
+      applyMessageUserStatusChange(
+        aMessageUserStatus,
+        { isArchived: false, isRead: true },
+        aLaterDate
+      )
+    ).toBe(aMessageUserStatus);
+  });
+});
+
+describe("getMessageUserStatusUpdater", () => {
+  const getUpdater = () => {
+    const model = new MessageUserStatusModel(
+      createInMemoryContainer("/fiscalCode")
+    );
+    return [
+      model,
+      getMessageUserStatusUpdater(model, aMessageId, aFiscalCode)
+    ] as const;
+  };
+
+  it("should create the first version of the status", async () => {
+    const [model, updater] = getUpdater();
+
+    const result = await updater({ isRead: true }).run();
+
+    expect(result.value).toEqual(
+      expect.objectContaining({
+        fiscalCode: aFiscalCode,
+        isArchived: false,
+        isDeleted: false,
+        isRead: true,
+        messageId: aMessageId,
+        readAt: expect.any(Date),
+        version: 0
+      })
+    );
+    const last = await model
+      .findLastVersionByModelId([aMessageId, aFiscalCode])
+      .run();
+    expect(last.map(_ => _.toUndefined()).value).toEqual(result.value);
+  });
+
+  it("should create a new version only when the status changes", async () => {
+    const [, updater] = getUpdater();
+
+    await updater({ isRead: true }).run();
+    const unchanged = await updater({ isRead: true }).run();
+    expect(unchanged.value).toHaveProperty("version", 0);
+
+    const archived = await updater({ isArchived: true }).run();
+    expect(archived.value).toEqual(
+      expect.objectContaining({
+        archivedAt: expect.any(Date),
+        isArchived: true,
+        isRead: true,
+        version: 1
+      })
+    );
+  });
+
+  it("should fail on concurrent updates", async () => {
+    const [model, updater] = getUpdater();
+    await updater({ isRead: true }).run();
+    const last = (
+      await model.findLastVersionByModelId([aMessageId, aFiscalCode]).run()
+    ).fold(
+      e => fail(e),
+      _ => _.toUndefined()
+    );
+    await updater({ isArchived: true }).run();
+
+    const result = await model.update({ ...last!, isDeleted: true }).run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+});
@@ -1,7 +1,9 @@
+import { createHash } from "crypto";
+
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { BlobService } from "azure-storage";
-import { array } from "fp-ts/lib/Array";
+import { array, catOptions } from "fp-ts/lib/Array";
 import {
   either,
   fromOption,
@@ -23,6 +25,7 @@ import {
   fromLeft,
   TaskEither,
   taskEither,
+  taskEitherSeq,
   tryCatch as tryCatchT
 } from "fp-ts/lib/TaskEither";
 import {
@@ -33,7 +36,17 @@ import {
   CosmosResource,
   toCosmosErrorResponse
 } from "../utils/cosmosdb_model";
-
+import { queryFor } from "../utils/cosmosdb_query";
+import {
+  decryptPayload,
+  EncryptedPayload,
+  encryptPayload,
+  IKeyProvider,
+  rewrapPayload
+} from "../utils/encryption";
+
+import { MessageAttachment } from "../../generated/definitions/MessageAttachment";
+import { MessageAttachments } from "../../generated/definitions/MessageAttachments";
 import { MessageContent } from "../../generated/definitions/MessageContent";
 
 import { FiscalCode } from "../../generated/definitions/FiscalCode";
@@ -41,7 +54,15 @@ import { FiscalCode } from "../../generated/definitions/FiscalCode";
 import { ServiceId } from "../../generated/definitions/ServiceId";
 import { Timestamp } from "../../generated/definitions/Timestamp";
 import { TimeToLiveSeconds } from "../../generated/definitions/TimeToLiveSeconds";
-import { getBlobAsText, upsertBlobFromObject } from "../utils/azure_storage";
+import {
+  getBlobAsText,
+  getBoundedBlobAsBuffer,
+  getBoundedBlobAsText,
+  IBlobContentOptions,
+  upsertBlobFromObject,
+  upsertBlobFromText,
+  upsertBoundedBlobFromObject
+} from "../utils/azure_storage";
 import { wrapWithKind } from "../utils/types";
 
 export const MESSAGE_COLLECTION_NAME = "messages";
@@ -76,10 +97,29 @@ const MessageBaseO = t.partial({
   // cases where getMessages returns messages without content - i.e. messages
   // that didn't pass the checks done by created_message_queue_handler before
   // storing the message content.
-  isPending: t.boolean
+  isPending: t.boolean,
+
+  // when the message must be delivered, if later than createdAt
+  scheduledAt: Timestamp
 });
 
-const MessageBase = t.intersection([MessageBaseR, MessageBaseO], "MessageBase");
+/**
+ * Whether a message is scheduled before its expiration,
+ * i.e. within its time to live since its creation
+ */
+export const isScheduledWithinTimeToLive = (
+  message: t.TypeOf<typeof MessageBaseR> & t.TypeOf<typeof MessageBaseO>
+): boolean =>
+  message.scheduledAt === undefined ||
+  (message.scheduledAt.getTime() >= message.createdAt.getTime() &&
+    message.scheduledAt.getTime() <=
+      message.createdAt.getTime() + message.timeToLiveSeconds * 1000);
+
+const MessageBase = t.refinement(
+  t.intersection([MessageBaseR, MessageBaseO]),
+  isScheduledWithinTimeToLive,
+  "MessageBase"
+);
 
 /**
  * The attributes common to all types of Message
@@ -181,9 +221,67 @@ export const RetrievedMessage = t.union([
 
 export type RetrievedMessage = t.TypeOf<typeof RetrievedMessage>;
 
+/**
+ * Criteria to list the messages in the inbox of a recipient
+ */
+export interface IFindInboxMessagesOptions {
+  // only the messages created since this date (included)
+  readonly createdFrom?: Date;
+  // only the messages created before this date (excluded)
+  readonly createdTo?: Date;
+  // only the messages whose indexedId is lower than this one
+  readonly maximumId?: NonEmptyString;
+  // only the messages whose indexedId is greater than this one
+  readonly minimumId?: NonEmptyString;
+  // the maximum number of messages of each page
+  readonly pageSize?: number;
+  // only the messages sent by this service
+  readonly senderServiceId?: ServiceId;
+}
+
 const blobIdFromMessageId = (messageId: string): string =>
   `${messageId}${MESSAGE_BLOB_STORAGE_SUFFIX}`;
 
+// attachments are stored by hash, next to the content of their message
+const blobIdFromAttachment = (messageId: string, sha256: string): string =>
+  `${messageId}/attachments/${sha256}`;
+
+// the limits of the attachments are the ones of the API specs: the size
+// of each file is enforced by MessageAttachment, while their number must
+// match the maxItems of MessageAttachments, which is not enforced by its codec
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+// the maximum size of an attached file, i.e. the maximum size of MessageAttachment
+export const MAX_ATTACHMENT_SIZE = 10485760;
+
+const base64Length = (size: number): number => Math.ceil(size / 3) * 4;
+
+// an encrypted file is base64 encoded before being encrypted, then its
+// ciphertext is base64 encoded again and stored as JSON along with the
+// wrapped data key, which takes far less than the reserved 64KB
+const MAX_STORED_ATTACHMENT_SIZE =
+  base64Length(base64Length(MAX_ATTACHMENT_SIZE)) + 64 * 1024;
+
+/**
+ * A file to be attached to a message
+ */
+export interface IAttachmentFile {
+  readonly content: Buffer;
+  readonly contentType: string;
+  readonly name: string;
+}
+
+const sha256Of = (content: Buffer): string =>
+  createHash("sha256")
+    .update(content)
+    .digest("hex");
+
+const parseContentText = (contentAsText: string): TaskEither<Error, unknown> =>
+  parseJSON(contentAsText, toError).fold(
+    _ => fromLeft(new Error(`Cannot parse content text into object`)),
+    _ => taskEither.of(_)
+  );
+
 /**
  * A model for handling Messages
  */
@@ -197,10 +295,19 @@ export class MessageModel extends CosmosdbModel<
    * Creates a new Message model
    *
    * @param container the Cosmos container client
+   * @param containerName the name of the blob container of message contents
+   * @param keyProvider when provided, contents and attachments
+   *                    are stored encrypted
+   * @param contentOptions when provided, contents (and encrypted
+   *                       attachments) are stored compressed and contents
+   *                       are bounded in size: compressed contents are
+   *                       read only by models with contentOptions
    */
   constructor(
     container: Container,
-    protected readonly containerName: NonEmptyString
+    protected readonly containerName: NonEmptyString,
+    protected readonly keyProvider?: IKeyProvider,
+    protected readonly contentOptions?: IBlobContentOptions
   ) {
     super(container, NewMessage, RetrievedMessage);
   }
@@ -234,20 +341,112 @@ export class MessageModel extends CosmosdbModel<
     return fromEitherT(
       tryCatch2v(
         () =>
-          this.getQueryIterator({
-            parameters: [
-              {
-                name: "@fiscalCode",
-                value: fiscalCode
-              }
-            ],
-            query: `SELECT * FROM m WHERE m.${MESSAGE_MODEL_PK_FIELD} = @fiscalCode`
+          this.getQueryIterator(
+            queryFor(RetrievedMessage)
+              .where(({ eq }) => eq(MESSAGE_MODEL_PK_FIELD, fiscalCode))
+              .build()
+          )[Symbol.asyncIterator](),
+        toCosmosErrorResponse
+      )
+    );
+  }
+
+  /**
+   * Returns the messages in the inbox of a recipient, page by page,
+   * from the most recent one.
+   *
+   * Messages still being processed (see isPending) are excluded, while
+   * messages created before the isPending flag was introduced are included.
+   * Since indexedId are ULIDs, ranges of ids are ranges of creation time:
+   * a page of the inbox is then requested providing the id of the last
+   * message of the previous one as maximumId.
+   *
+   * @param fiscalCode The fiscal code of the recipient
+   * @param options The criteria to filter the messages
+   */
+  public findInboxMessages(
+    fiscalCode: FiscalCode,
+    options: IFindInboxMessagesOptions = {}
+  ): TaskEither<
+    CosmosErrors,
+    AsyncIterator<ReadonlyArray<t.Validation<RetrievedMessage>>>
+  > {
+    const query = queryFor(RetrievedMessage)
+      .where(({ and, compare, eq, isDefined, not, or }) =>
+        and(
+          eq(MESSAGE_MODEL_PK_FIELD, fiscalCode),
+          or(not(isDefined("isPending")), eq("isPending", false)),
+          ...catOptions([
+            fromNullable(options.maximumId).map(id =>
+              compare("indexedId", "<", id)
+            ),
+            fromNullable(options.minimumId).map(id =>
+              compare("indexedId", ">", id)
+            ),
+            fromNullable(options.senderServiceId).map(serviceId =>
+              eq("senderServiceId", serviceId)
+            ),
+            fromNullable(options.createdFrom).map(from =>
+              compare("createdAt", ">=", from)
+            ),
+            fromNullable(options.createdTo).map(to =>
+              compare("createdAt", "<", to)
+            )
+          ])
+        )
+      )
+      .orderBy("indexedId", "DESC")
+      .build();
+    return fromEitherT(
+      tryCatch2v(
+        () =>
+          this.getQueryIterator(query, {
+            maxItemCount: options.pageSize,
+            partitionKey: fiscalCode
           })[Symbol.asyncIterator](),
         toCosmosErrorResponse
       )
     );
   }
 
+  /**
+   * Returns the messages scheduled for delivery in a time window,
+   * page by page, from the first one due.
+   *
+   * Note that this is a cross-partition query.
+   *
+   * @param from The start of the time window (included)
+   * @param to The end of the time window (excluded)
+   * @param pageSize The maximum number of messages of each page
+   */
+  public findMessagesScheduledBetween(
+    from: Date,
+    to: Date,
+    pageSize?: number
+  ): TaskEither<
+    CosmosErrors,
+    AsyncIterator<ReadonlyArray<t.Validation<RetrievedMessage>>>
+  > {
+    return fromEitherT(
+      tryCatch2v(
+        () =>
+          this.getQueryIterator(
+            queryFor(RetrievedMessage)
+              .where(({ and, compare }) =>
+                and(
+                  compare("scheduledAt", ">=", from),
+                  compare("scheduledAt", "<", to)
+                )
+              )
+              .orderBy("scheduledAt", "ASC")
+              .build(),
+            { maxItemCount: pageSize }
+          )[Symbol.asyncIterator](),
+        toCosmosErrorResponse
+      )
+    );
+  }
+
   /**
    * @deprecated use getQueryIterator + asyncIterableToArray
    */
@@ -285,7 +484,8 @@ export class MessageModel extends CosmosdbModel<
   }
 
   /**
-   * Store the message content in a blob
+   * Store the message content in a blob,
+   * encrypted if the model has a key provider
    *
    * @param blobService The azure.BlobService used to store the media
    * @param messageId The id of the message used to set the blob name
@@ -300,20 +500,20 @@ export class MessageModel extends CosmosdbModel<
     const blobName = blobIdFromMessageId(messageId);
 
     // Store message content in blob storage
-    return tryCatchT(
-      () =>
-        upsertBlobFromObject<MessageContent>(
-          blobService,
-          this.containerName,
-          blobName,
-          messageContent
-        ),
-      toError
-    ).chain(fromEitherT);
+    return this.keyProvider === undefined
+      ? this.storeBlob(blobService, blobName, messageContent)
+      : encryptPayload(
+          this.keyProvider,
+          JSON.stringify(messageContent),
+          messageId
+        ).chain(encryptedContent =>
+          this.storeBlob(blobService, blobName, encryptedContent)
+        );
   }
 
   /**
-   * Retrieve the message content from a blob
+   * Retrieve the message content from a blob,
+   * decrypting it if it was stored encrypted
    *
    * @param blobService The azure.BlobService used to store the media
    * @param messageId The id of the message used to set the blob name
@@ -326,26 +526,15 @@ export class MessageModel extends CosmosdbModel<
 
     // Retrieve blob content and deserialize
     return (
-      tryCatchT(
-        () => getBlobAsText(blobService, this.containerName, blobId),
-        toError
-      )
-        .chain(fromEitherT)
-        .chain(maybeContentAsText =>
-          fromEitherT(
-            fromOption(
-              // Blob exists but the content is empty
-              new Error("Cannot get stored message content from blob")
-            )(maybeContentAsText)
-          )
+      this.getBlobAsJson(blobService, blobId)
+        .chain(storedContent =>
+          EncryptedPayload.is(storedContent)
+            ? this.withKeyProvider(keyProvider =>
+                decryptPayload(keyProvider, storedContent, messageId)
+              ).chain(parseContentText)
+            : taskEither.of<Error, unknown>(storedContent)
         )
         // Try to decode the MessageContent
-        .chain(contentAsText =>
-          parseJSON(contentAsText, toError).fold(
-            _ => fromLeft(new Error(`Cannot parse content text into object`)),
-            _ => taskEither.of(_)
-          )
-        )
         .chain(undecodedContent =>
           MessageContent.decode(undecodedContent).fold(
             errors =>
@@ -361,4 +550,265 @@ export class MessageModel extends CosmosdbModel<
         )
     );
   }
+
+  /**
+   * Encrypt the message content stored in a blob with the current key
+   * of the key provider, to be run on every blob after a key rotation.
+   *
+   * Contents stored in plain text are encrypted, while the data key of
+   * encrypted contents is wrapped again with the current key.
+   *
+   * @param blobService The azure.BlobService used to store the media
+   * @param messageId The id of the message used to set the blob name
+   *
+   * @returns whether the blob has been updated
+   */
+  public reEncryptContentBlob(
+    blobService: BlobService,
+    messageId: string
+  ): TaskEither<Error, boolean> {
+    const blobId = blobIdFromMessageId(messageId);
+    return this.withKeyProvider(keyProvider =>
+      this.getBlobAsJson(blobService, blobId).chain(storedContent =>
+        EncryptedPayload.is(storedContent)
+          ? storedContent.keyId === keyProvider.currentKeyId
+            ? taskEither.of<Error, boolean>(false)
+            : rewrapPayload(keyProvider, storedContent)
+                .chain(_ => this.storeBlob(blobService, blobId, _))
+                .map(() => true)
+          : encryptPayload(
+              keyProvider,
+              JSON.stringify(storedContent),
+              messageId
+            )
+              .chain(_ => this.storeBlob(blobService, blobId, _))
+              .map(() => true)
+      )
+    );
+  }
+
+  /**
+   * Store the files attached to a message in blobs,
+   * encrypted and compressed like the content of the message
+   *
+   * Every file is validated before any of them is stored.
+   *
+   * @param blobService The azure.BlobService used to store the media
+   * @param messageId The id of the message the files are attached to
+   * @param files The files to be stored
+   *
+   * @returns the attachments to be set in the content of the message
+   */
+  public storeAttachmentsAsBlobs(
+    blobService: BlobService,
+    messageId: string,
+    files: ReadonlyArray<IAttachmentFile>
+  ): TaskEither<Error, MessageAttachments> {
+    if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      return fromLeft(
+        new Error(
+          `Too many attachments: ${files.length} > ${MAX_ATTACHMENTS_PER_MESSAGE}`
+        )
+      );
+    }
+    return fromEitherT(
+      array.traverse(either)([...files], file =>
+        MessageAttachment.decode({
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          content_type: file.contentType,
+          name: file.name,
+          sha256: sha256Of(file.content),
+          size: file.content.length
+        })
+          .map(attachment => ({ attachment, file }))
+          .mapLeft(
+            errors =>
+              new Error(
+                `Invalid attachment ${file.name}: ${readableReport(errors)}`
+              )
+          )
+      )
+    ).chain(attachmentFiles =>
+      array.traverse(taskEitherSeq)(attachmentFiles, ({ attachment, file }) =>
+        this.storeAttachmentBlob(
+          blobService,
+          blobIdFromAttachment(messageId, attachment.sha256),
+          attachment,
+          file.content
+        ).map(() => attachment)
+      )
+    );
+  }
+
+  /**
+   * Retrieve the bytes of a file attached to a message, decrypting them
+   * if they were stored encrypted, failing if they don't match the size
+   * and the hash of the attachment
+   *
+   * @param blobService The azure.BlobService used to store the media
+   * @param messageId The id of the message the file is attached to
+   * @param attachment The attachment, from the content of the message
+   */
+  public getAttachmentFromBlob(
+    blobService: BlobService,
+    messageId: string,
+    attachment: MessageAttachment
+  ): TaskEither<Error, Option<Buffer>> {
+    const blobId = blobIdFromAttachment(messageId, attachment.sha256);
+    return tryCatchT(
+      () =>
+        getBoundedBlobAsBuffer(
+          blobService,
+          this.containerName,
+          blobId,
+          MAX_STORED_ATTACHMENT_SIZE
+        ),
+      toError
+    )
+      .chain(fromEitherT)
+      .chain(maybeStoredContent =>
+        maybeStoredContent.foldL(
+          () => taskEither.of<Error, Option<Buffer>>(none),
+          storedContent =>
+            this.openAttachmentBlob(blobId, storedContent).map(some)
+        )
+      )
+      .chain(maybeContent =>
+        maybeContent.foldL(
+          () => taskEither.of(none),
+          content =>
+            content.length === attachment.size &&
+            sha256Of(content) === attachment.sha256
+              ? taskEither.of(some(content))
+              : fromLeft(
+                  new Error(
+                    `Stored attachment ${attachment.name} does not match its hash`
+                  )
+                )
+        )
+      );
+  }
+
+  /**
+   * Store the bytes of an attachment as they are or, if the model has a key
+   * provider, encrypted (base64 encoded) as the content of the message:
+   * the blob id is authenticated along with them, so that they cannot be
+   * swapped with the ones of another attachment or message
+   */
+  private storeAttachmentBlob(
+    blobService: BlobService,
+    blobId: string,
+    attachment: MessageAttachment,
+    content: Buffer
+  ): TaskEither<Error, Option<BlobService.BlobResult>> {
+    return this.keyProvider === undefined
+      ? tryCatchT(
+          () =>
+            upsertBlobFromText(
+              blobService,
+              this.containerName,
+              blobId,
+              content,
+              { contentSettings: { contentType: attachment.content_type } }
+            ),
+          toError
+        ).chain(fromEitherT)
+      : encryptPayload(
+          this.keyProvider,
+          content.toString("base64"),
+          blobId
+        ).chain(encryptedContent =>
+          this.storeBlob(blobService, blobId, encryptedContent, {
+            ...this.contentOptions,
+            maxSize: MAX_STORED_ATTACHMENT_SIZE
+          })
+        );
+  }
+
+  /**
+   * Returns the bytes of an attachment from the ones of its blob: if the
+   * model has a key provider, they're decrypted unless the blob was stored
+   * before the key provider was set, i.e. it's not an encrypted payload
+   */
+  private openAttachmentBlob(
+    blobId: string,
+    storedContent: Buffer
+  ): TaskEither<Error, Buffer> {
+    const keyProvider = this.keyProvider;
+    if (keyProvider === undefined) {
+      return taskEither.of(storedContent);
+    }
+    const storedPayload = parseJSON(
+      storedContent.toString("utf8"),
+      toError
+    ).getOrElse(undefined);
+    return EncryptedPayload.is(storedPayload)
+      ? decryptPayload(keyProvider, storedPayload, blobId).map(_ =>
+          Buffer.from(_, "base64")
+        )
+      : taskEither.of(storedContent);
+  }
+
+  private storeBlob<T>(
+    blobService: BlobService,
+    blobName: string,
+    content: T,
+    contentOptions: IBlobContentOptions | undefined = this.contentOptions
+  ): TaskEither<Error, Option<BlobService.BlobResult>> {
+    return tryCatchT(
+      () =>
+        contentOptions === undefined
+          ? upsertBlobFromObject<T>(
+              blobService,
+              this.containerName,
+              blobName,
+              content
+            )
+          : upsertBoundedBlobFromObject<T>(
+              blobService,
+              this.containerName,
+              blobName,
+              content,
+              contentOptions
+            ),
+      toError
+    ).chain(fromEitherT);
+  }
+
+  private getBlobAsJson(
+    blobService: BlobService,
+    blobId: string
+  ): TaskEither<Error, unknown> {
+    const contentOptions = this.contentOptions;
+    return tryCatchT(
+      () =>
+        contentOptions === undefined
+          ? getBlobAsText(blobService, this.containerName, blobId)
+          : getBoundedBlobAsText(
+              blobService,
+              this.containerName,
+              blobId,
+              contentOptions.maxSize
+            ),
+      toError
+    )
+      .chain(fromEitherT)
+      .chain(maybeContentAsText =>
+        fromEitherT(
+          fromOption(
+            // Blob exists but the content is empty
+            new Error("Cannot get stored message content from blob")
+          )(maybeContentAsText)
+        )
+      )
+      .chain(parseContentText);
+  }
+
+  private withKeyProvider<A>(
+    f: (keyProvider: IKeyProvider) => TaskEither<Error, A>
+  ): TaskEither<Error, A> {
+    return this.keyProvider === undefined
+      ? fromLeft(new Error("Missing the key provider of message contents"))
+      : f(this.keyProvider);
+  }
 }
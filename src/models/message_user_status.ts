@@ -0,0 +1,184 @@
+import * as t from "io-ts";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { Container } from "@azure/cosmos";
+import { TaskEither, taskEither } from "fp-ts/lib/TaskEither";
+import { FiscalCode } from "../../generated/definitions/FiscalCode";
+import { Timestamp } from "../../generated/definitions/Timestamp";
+import { CosmosErrors } from "../utils/cosmosdb_model";
+import {
+  CosmosdbModelVersioned,
+  RetrievedVersionedModel
+} from "../utils/cosmosdb_model_versioned";
+import { wrapWithKind } from "../utils/types";
+
+export const MESSAGE_USER_STATUS_COLLECTION_NAME = "message-user-status";
+export const MESSAGE_USER_STATUS_MODEL_ID_FIELD = "messageId" as const;
+export const MESSAGE_USER_STATUS_MODEL_PK_FIELD = "fiscalCode" as const;
+
+/**
+ * The status of a message set by its recipient:
+ * every flag comes with the time it was set at
+ */
+export const MessageUserStatus = t.intersection([
+  t.interface({
+    // the fiscal code of the recipient
+    fiscalCode: FiscalCode,
+
+    // whether the recipient moved the message to the archive
+    isArchived: t.boolean,
+
+    // whether the recipient deleted the message from the inbox
+    isDeleted: t.boolean,
+
+    // whether the recipient read the message
+    isRead: t.boolean,
+
+    messageId: NonEmptyString,
+
+    updatedAt: Timestamp
+  }),
+  t.partial({
+    // when the message was archived, if it is
+    archivedAt: Timestamp,
+
+    // when the message was deleted, if it is
+    deletedAt: Timestamp,
+
+    // when the message was read, if it is
+    readAt: Timestamp
+  })
+]);
+
+export type MessageUserStatus = t.TypeOf<typeof MessageUserStatus>;
+
+export const NewMessageUserStatus = wrapWithKind(
+  MessageUserStatus,
+  "INewMessageUserStatus" as const
+);
+
+export type NewMessageUserStatus = t.TypeOf<typeof NewMessageUserStatus>;
+
+export const RetrievedMessageUserStatus = wrapWithKind(
+  t.intersection([MessageUserStatus, RetrievedVersionedModel]),
+  "IRetrievedMessageUserStatus" as const
+);
+
+export type RetrievedMessageUserStatus = t.TypeOf<
+  typeof RetrievedMessageUserStatus
+>;
+
+/**
+ * A change of the status of a message: omitted flags are left unchanged
+ */
+export interface IMessageUserStatusChange {
+  readonly isArchived?: boolean;
+  readonly isDeleted?: boolean;
+  readonly isRead?: boolean;
+}
+
+// the flags of a MessageUserStatus along with their timestamp field
+const MESSAGE_USER_STATUS_FLAGS = [
+  ["isArchived", "archivedAt"],
+  ["isDeleted", "deletedAt"],
+  ["isRead", "readAt"]
+] as const;
+
+/**
+ * Applies a change to the status of a message: the timestamp of a flag
+ * is set when the flag is raised and removed when the flag is lowered,
+ * while it's left untouched when the flag doesn't change.
+ *
+ * @param status the current status of the message
+ * @param change the change to be applied
+ * @param now the time of the change
+ */
+export const applyMessageUserStatusChange = <T extends MessageUserStatus>(
+  status: T,
+  change: IMessageUserStatusChange,
+  now: Date
+): T =>
+  MESSAGE_USER_STATUS_FLAGS.reduce((updated, [flag, timestampField]) => {
+    const value = change[flag];
+    if (value === undefined || value === status[flag]) {
+      return updated;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { [timestampField]: _, ...rest } = updated;
+    return {
+      ...rest,
+      [flag]: value,
+      ...(value ? { [timestampField]: now } : {}),
+      updatedAt: now
+    } as T;
+  }, status);
+
+export type MessageUserStatusUpdater = (
+  change: IMessageUserStatusChange
+) => TaskEither<CosmosErrors, RetrievedMessageUserStatus>;
+
+/**
+ * Convenience method that returns a function
+ * to update the status of a Message set by its recipient.
+ *
+ * A new version is saved only when the change modifies the status;
+ * since the new version is based on the last one, the update fails
+ * with a 409 Conflict on concurrent modifications.
+ */
+export const getMessageUserStatusUpdater = (
+  messageUserStatusModel: MessageUserStatusModel,
+  messageId: NonEmptyString,
+  fiscalCode: FiscalCode
+  // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+): MessageUserStatusUpdater => change =>
+  messageUserStatusModel
+    .findLastVersionByModelId([messageId, fiscalCode])
+    .chain(maybeLastStatus => {
+      const now = new Date();
+      return maybeLastStatus.foldL(
+        () =>
+          messageUserStatusModel.create({
+            ...applyMessageUserStatusChange(
+              {
+                fiscalCode,
+                isArchived: false,
+                isDeleted: false,
+                isRead: false,
+                messageId,
+                updatedAt: now
+              },
+              change,
+              now
+            ),
+            kind: "INewMessageUserStatus"
+          }),
+        lastStatus => {
+          const updated = applyMessageUserStatusChange(lastStatus, change, now);
+          return updated === lastStatus
+            ? taskEither.of(lastStatus)
+            : messageUserStatusModel.update(updated);
+        }
+      );
+    });
+
+/**
+ * A model for handling the status of messages set by their recipients
+ */
+export class MessageUserStatusModel extends CosmosdbModelVersioned<
+  MessageUserStatus,
+  NewMessageUserStatus,
+  RetrievedMessageUserStatus,
+  typeof MESSAGE_USER_STATUS_MODEL_ID_FIELD,
+  typeof MESSAGE_USER_STATUS_MODEL_PK_FIELD
+> {
+  constructor(container: Container) {
+    super(
+      container,
+      NewMessageUserStatus,
+      RetrievedMessageUserStatus,
+      MESSAGE_USER_STATUS_MODEL_ID_FIELD,
+      MESSAGE_USER_STATUS_MODEL_PK_FIELD
+    );
+  }
+}
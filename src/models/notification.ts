@@ -19,6 +19,7 @@ import {
   CosmosErrors,
   CosmosResource
 } from "../utils/cosmosdb_model";
+import { queryFor } from "../utils/cosmosdb_query";
 import { HttpsUrl } from "../../generated/definitions/HttpsUrl";
 import { NotificationChannelEnum } from "../../generated/definitions/NotificationChannel";
 import { ObjectIdGenerator } from "../utils/strings";
@@ -165,14 +166,12 @@ export class NotificationModel extends CosmosdbModel<
   public findNotificationForMessage(
     messageId: string
   ): TaskEither<CosmosErrors, Option<RetrievedNotification>> {
-    return this.findOneByQuery({
-      parameters: [
-        {
-          name: "@messageId",
-          value: messageId
-        }
-      ],
-      query: `SELECT * FROM n WHERE (n.${NOTIFICATION_MODEL_PK_FIELD} = @messageId)`
-    });
+    return this.findOneByQuery(
+      queryFor(RetrievedNotification)
+        .where(({ eq }) =>
+          eq(NOTIFICATION_MODEL_PK_FIELD, messageId as NonEmptyString)
+        )
+        .build()
+    );
   }
 }
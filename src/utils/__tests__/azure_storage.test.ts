@@ -2,14 +2,36 @@
 
 import * as t from "io-ts";
 
-import { isRight } from "fp-ts/lib/Either";
-import { isNone } from "fp-ts/lib/Option";
+import { gunzipSync, gzipSync } from "zlib";
+
+import * as azureStorage from "azure-storage";
+
+import { isLeft, isRight, right } from "fp-ts/lib/Either";
+import { isNone, none, some } from "fp-ts/lib/Option";
+
+import { UTCISODateFromString } from "@pagopa/ts-commons/lib/dates";
 
 import {
   BlobNotFoundCode,
+  deleteQueueMessage,
+  deleteTableEntity,
+  dequeue,
+  enqueue,
+  getBlobAsBuffer,
   getBlobAsObject,
-  getBlobAsText
+  getBlobAsText,
+  getBoundedBlobAsBuffer,
+  getBoundedBlobAsText,
+  isBlobTooLargeError,
+  mergeTableEntity,
+  peek,
+  queryTableEntities,
+  ResourceNotFoundCode,
+  TableEntity,
+  upsertBoundedBlobFromObject,
+  upsertTableEntity
 } from "../azure_storage";
+import { asyncIterableToArray } from "../async";
 
 const TestObject = t.interface({
   prop: t.string
@@ -41,6 +63,45 @@ describe("getBlobAsText", () => {
   });
 });
 
+describe("getBlobAsBuffer", () => {
+  it("should return the binary content of a blob", async () => {
+    const aContent = Buffer.from([0, 1, 2, 255]);
+    const blobService = {
+      getBlobToStream: jest.fn((_, __, stream, ___, f) => {
+        stream.write(aContent.slice(0, 2));
+        stream.write(aContent.slice(2));
+        f(undefined, {});
+      })
+    };
+
+    const errorOrMaybeBuffer = await getBlobAsBuffer(
+      blobService as any,
+      "container",
+      "blob"
+    );
+
+    expect(errorOrMaybeBuffer.map(_ => _.toUndefined()).value).toEqual(
+      aContent
+    );
+  });
+
+  it("should return None on BlobNotFound error", async () => {
+    const blobService = {
+      getBlobToStream: jest.fn((_, __, ___, ____, f) => {
+        f({ code: BlobNotFoundCode });
+      })
+    };
+
+    const errorOrMaybeBuffer = await getBlobAsBuffer(
+      blobService as any,
+      "container",
+      "blob"
+    );
+
+    expect(errorOrMaybeBuffer.map(isNone).value).toBe(true);
+  });
+});
+
 describe("getBlobAsObject", () => {
   it("should return None on BlobNotFound error", async () => {
     const errorOrMaybeObject = await getBlobAsObject(
@@ -57,3 +118,417 @@ describe("getBlobAsObject", () => {
     }
   });
 });
+
+describe("bounded and compressed blobs", () => {
+  interface IStoredBlob {
+    readonly content: Buffer;
+    readonly contentEncoding?: string;
+  }
+
+  // a blob service storing the blobs in memory
+  const getBlobServiceMock = (blobs: Map<string, IStoredBlob>) => ({
+    createBlockBlobFromText: jest.fn((_, blobName, text, options, f) => {
+      blobs.set(blobName, {
+        content: Buffer.from(text),
+        contentEncoding: options.contentSettings.contentEncoding
+      });
+      f(undefined, { name: blobName });
+    }),
+    getBlobProperties: jest.fn((_, blobName, f) => {
+      const blob = blobs.get(blobName);
+      return blob === undefined
+        ? f({ statusCode: 404 })
+        : f(undefined, {
+            contentLength: String(blob.content.length),
+            contentSettings: { contentEncoding: blob.contentEncoding },
+            etag: "etag"
+          });
+    }),
+    getBlobToStream: jest.fn((_, blobName, stream, __, f) => {
+      stream.write(blobs.get(blobName)!.content);
+      f(undefined, {});
+    })
+  });
+
+  const aContent = { text: "a text ".repeat(100) };
+
+  it("should store a compressed blob and read it back", async () => {
+    const blobs = new Map<string, IStoredBlob>();
+    const blobService = getBlobServiceMock(blobs) as any;
+
+    await upsertBoundedBlobFromObject(blobService, "c", "a-blob", aContent, {
+      compress: true
+    });
+    const stored = blobs.get("a-blob")!;
+    expect(stored.contentEncoding).toBe("gzip");
+    expect(gunzipSync(stored.content).toString()).toBe(
+      JSON.stringify(aContent)
+    );
+
+    const errorOrMaybeText = await getBoundedBlobAsText(
+      blobService,
+      "c",
+      "a-blob",
+      1000
+    );
+    expect(errorOrMaybeText.value).toEqual(some(JSON.stringify(aContent)));
+  });
+
+  it("should read a legacy uncompressed blob", async () => {
+    const blobs = new Map<string, IStoredBlob>([
+      ["a-blob", { content: Buffer.from(JSON.stringify(aContent)) }]
+    ]);
+
+    const errorOrMaybeText = await getBoundedBlobAsText(
+      getBlobServiceMock(blobs) as any,
+      "c",
+      "a-blob"
+    );
+    expect(errorOrMaybeText.value).toEqual(some(JSON.stringify(aContent)));
+  });
+
+  it("should read a binary blob as it is", async () => {
+    const aBinaryContent = Buffer.from([0xff, 0xfe, 0x00, 0x80]);
+    const blobs = new Map<string, IStoredBlob>([
+      ["a-blob", { content: aBinaryContent }]
+    ]);
+
+    const errorOrMaybeContent = await getBoundedBlobAsBuffer(
+      getBlobServiceMock(blobs) as any,
+      "c",
+      "a-blob",
+      100
+    );
+    expect(errorOrMaybeContent.value).toEqual(some(aBinaryContent));
+  });
+
+  it("should return None for a missing blob", async () => {
+    const errorOrMaybeText = await getBoundedBlobAsText(
+      getBlobServiceMock(new Map()) as any,
+      "c",
+      "a-blob"
+    );
+    expect(errorOrMaybeText.value).toEqual(none);
+  });
+
+  it("should refuse to store a content larger than the max size", async () => {
+    const blobs = new Map<string, IStoredBlob>();
+
+    const result = await upsertBoundedBlobFromObject(
+      getBlobServiceMock(blobs) as any,
+      "c",
+      "a-blob",
+      aContent,
+      { compress: true, maxSize: 100 }
+    );
+
+    expect(isLeft(result) && isBlobTooLargeError(result.value)).toBe(true);
+    expect(blobs.size).toBe(0);
+  });
+
+  it("should not download a blob larger than the max size", async () => {
+    const blobs = new Map<string, IStoredBlob>([
+      ["a-blob", { content: Buffer.from(JSON.stringify(aContent)) }]
+    ]);
+    const blobService = getBlobServiceMock(blobs);
+
+    const result = await getBoundedBlobAsText(
+      blobService as any,
+      "c",
+      "a-blob",
+      100
+    );
+
+    expect(isLeft(result) && isBlobTooLargeError(result.value)).toBe(true);
+    expect(blobService.getBlobToStream).not.toHaveBeenCalled();
+  });
+
+  it("should stop decompressing a blob expanding beyond the max size", async () => {
+    const blobs = new Map<string, IStoredBlob>([
+      [
+        "a-blob",
+        {
+          content: gzipSync(Buffer.alloc(1024 * 1024)),
+          contentEncoding: "gzip"
+        }
+      ]
+    ]);
+
+    const result = await getBoundedBlobAsText(
+      getBlobServiceMock(blobs) as any,
+      "c",
+      "a-blob",
+      64 * 1024
+    );
+
+    expect(isLeft(result) && isBlobTooLargeError(result.value)).toBe(true);
+  });
+});
+
+describe("queue messages", () => {
+  const aPayload: TestObject = { prop: "a value" };
+
+  // a queue service storing the messages in memory
+  const getQueueServiceMock = (
+    messages: Map<string, azureStorage.QueueService.QueueMessageResult>
+  ) => ({
+    createMessage: jest.fn((_, messageText, __, f) => {
+      const messageId = `id-${messages.size}`;
+      messages.set(messageId, { dequeueCount: 0, messageId, messageText });
+      f(undefined, { messageId });
+    }),
+    deleteMessage: jest.fn((_, messageId, __, f) => {
+      messages.delete(messageId);
+      f(undefined);
+    }),
+    getMessages: jest.fn((_, __, f) =>
+      f(
+        undefined,
+        [...messages.values()].map(message => ({
+          ...message,
+          dequeueCount: message.dequeueCount! + 1,
+          popReceipt: "a-pop-receipt"
+        }))
+      )
+    ),
+    peekMessages: jest.fn((_, __, f) => f(undefined, [...messages.values()]))
+  });
+
+  it("should enqueue a payload encoded like the Azure Functions bindings", async () => {
+    const messages = new Map();
+    const queueService = getQueueServiceMock(messages);
+
+    const result = await enqueue(
+      TestObject,
+      queueService as any,
+      "a-queue",
+      aPayload,
+      { ttl: 60, visibilityTimeout: 10 }
+    );
+
+    expect(isRight(result)).toBe(true);
+    expect(queueService.createMessage).toHaveBeenCalledWith(
+      "a-queue",
+      Buffer.from(JSON.stringify(aPayload)).toString("base64"),
+      { messageTimeToLive: 60, visibilityTimeout: 10 },
+      expect.any(Function)
+    );
+  });
+
+  it("should dequeue and delete the enqueued payloads", async () => {
+    const messages = new Map();
+    const queueService = getQueueServiceMock(messages) as any;
+    await enqueue(TestObject, queueService, "a-queue", aPayload);
+
+    const errorOrMessages = await dequeue(TestObject, queueService, "a-queue");
+
+    expect(errorOrMessages.value).toEqual([
+      expect.objectContaining({
+        dequeueCount: 1,
+        messageId: "id-0",
+        payload: right(aPayload),
+        popReceipt: "a-pop-receipt"
+      })
+    ]);
+    if (isRight(errorOrMessages)) {
+      await deleteQueueMessage(
+        queueService,
+        "a-queue",
+        errorOrMessages.value[0]
+      );
+    }
+    expect(messages.size).toBe(0);
+  });
+
+  it("should peek the messages returning the ones that cannot be decoded", async () => {
+    const messages = new Map([
+      ["id-0", { dequeueCount: 0, messageId: "id-0", messageText: "{}" }],
+      [
+        "id-1",
+        {
+          dequeueCount: 2,
+          messageId: "id-1",
+          messageText: Buffer.from(JSON.stringify({ prop: 1 })).toString(
+            "base64"
+          )
+        }
+      ]
+    ]);
+
+    const errorOrMessages = await peek(
+      TestObject,
+      getQueueServiceMock(messages) as any,
+      "a-queue"
+    );
+
+    expect(isRight(errorOrMessages)).toBe(true);
+    if (isRight(errorOrMessages)) {
+      expect(errorOrMessages.value.map(_ => _.messageId)).toEqual([
+        "id-0",
+        "id-1"
+      ]);
+      expect(errorOrMessages.value.every(_ => isLeft(_.payload))).toBe(true);
+    }
+    expect(messages.size).toBe(2);
+  });
+
+  it("should return the errors of the queue service", async () => {
+    const queueService = {
+      getMessages: jest.fn((_, __, f) => f(new Error("an error")))
+    };
+
+    const errorOrMessages = await dequeue(
+      TestObject,
+      queueService as any,
+      "a-queue"
+    );
+
+    expect(isLeft(errorOrMessages)).toBe(true);
+  });
+});
+
+describe("table entities", () => {
+  const TestEntity = t.intersection([
+    TableEntity,
+    t.interface({ InvalidAfter: UTCISODateFromString })
+  ]);
+
+  const anEntity = {
+    InvalidAfter: new Date("2020-01-01T00:00:00.000Z"),
+    PartitionKey: "a-partition",
+    RowKey: "a-row"
+  };
+
+  // the rows as returned by the table service, before being resolved
+  const toRow = (entity: Record<string, unknown>) =>
+    Object.keys(entity).reduce(
+      (row, key) => ({ ...row, [key]: { _: entity[key] } }),
+      {}
+    );
+
+  it("should store an entity encoded with its type, keeping its dates", async () => {
+    const tableService = {
+      insertOrReplaceEntity: jest.fn((_, __, f) =>
+        f(undefined, { ".metadata": { etag: "an-etag" } })
+      ),
+      mergeEntity: jest.fn((_, __, f) =>
+        f(undefined, { ".metadata": { etag: "an-etag" } })
+      )
+    };
+
+    await upsertTableEntity(
+      TestEntity,
+      tableService as any,
+      "a-table",
+      anEntity
+    );
+    await mergeTableEntity(
+      TestEntity,
+      tableService as any,
+      "a-table",
+      anEntity
+    );
+
+    // the dates are stored as Edm.DateTime, like by insertTableEntity
+    expect(tableService.insertOrReplaceEntity).toHaveBeenCalledWith(
+      "a-table",
+      anEntity,
+      expect.any(Function)
+    );
+    expect(tableService.mergeEntity).toHaveBeenCalledWith(
+      "a-table",
+      anEntity,
+      expect.any(Function)
+    );
+  });
+
+  it("should delete an entity by its keys", async () => {
+    const tableService = {
+      deleteEntity: jest
+        .fn()
+        .mockImplementationOnce((_, __, f) => f(undefined))
+        .mockImplementationOnce((_, __, f) => f({ code: ResourceNotFoundCode }))
+        .mockImplementationOnce((_, __, f) => f(new Error("an error")))
+    };
+
+    const results = [
+      await deleteTableEntity(tableService as any, "a-table", anEntity),
+      await deleteTableEntity(tableService as any, "a-table", anEntity),
+      await deleteTableEntity(tableService as any, "a-table", anEntity)
+    ];
+
+    expect(tableService.deleteEntity).toHaveBeenCalledWith(
+      "a-table",
+      { PartitionKey: "a-partition", RowKey: "a-row" },
+      expect.any(Function)
+    );
+    expect(results[0].value).toBe(true);
+    expect(results[1].value).toBe(false);
+    expect(isLeft(results[2])).toBe(true);
+  });
+
+  it("should query the entities following the continuation tokens", async () => {
+    const aContinuationToken = { nextPartitionKey: "p", nextRowKey: "r" };
+    const tableService = {
+      queryEntities: jest
+        .fn()
+        .mockImplementationOnce((_, __, ___, options, f) =>
+          f(undefined, {
+            continuationToken: aContinuationToken,
+            entries: [
+              options.entityResolver(
+                toRow({ ...anEntity, InvalidAfter: "2020-01-01T00:00:00Z" })
+              )
+            ]
+          })
+        )
+        .mockImplementationOnce((_, __, ___, options, f) =>
+          f(undefined, {
+            entries: [options.entityResolver(toRow({ RowKey: "a-row" }))]
+          })
+        )
+    };
+    const aQuery = new azureStorage.TableQuery();
+
+    const pages = await asyncIterableToArray(
+      queryTableEntities(TestEntity, tableService as any, "a-table", aQuery)
+    );
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toEqual([right(anEntity)]);
+    expect(isLeft(pages[1][0])).toBe(true);
+    expect(tableService.queryEntities).toHaveBeenNthCalledWith(
+      1,
+      "a-table",
+      aQuery,
+      undefined,
+      expect.any(Object),
+      expect.any(Function)
+    );
+    expect(tableService.queryEntities).toHaveBeenNthCalledWith(
+      2,
+      "a-table",
+      aQuery,
+      aContinuationToken,
+      expect.any(Object),
+      expect.any(Function)
+    );
+  });
+
+  it("should fail when the query fails", async () => {
+    const tableService = {
+      queryEntities: jest.fn((_, __, ___, ____, f) => f(new Error("an error")))
+    };
+
+    await expect(
+      asyncIterableToArray(
+        queryTableEntities(
+          TestEntity,
+          tableService as any,
+          "a-table",
+          new azureStorage.TableQuery()
+        )
+      )
+    ).rejects.toThrow("an error");
+  });
+});
@@ -0,0 +1,76 @@
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import { Container } from "@azure/cosmos";
+
+import {
+  BATCH_STORED_PROCEDURE_ID,
+  BatchStoredProcedure,
+  parseBatchOperationFailure,
+  registerBatchStoredProcedure
+} from "../cosmosdb_batch";
+
+const replaceMock = jest.fn();
+const createMock = jest.fn();
+const containerMock = {
+  scripts: {
+    storedProcedure: jest.fn(() => ({ replace: replaceMock })),
+    storedProcedures: {
+      create: createMock
+    }
+  }
+};
+const container = (containerMock as unknown) as Container;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe("parseBatchOperationFailure", () => {
+  it("should extract the failed operation from the error message", () => {
+    const result = parseBatchOperationFailure(
+      'Message: {"Errors":["Encountered exception while executing function. Exception = Error: BATCH_OPERATION_FAILED(2,412)"]}'
+    );
+
+    expect(result.toUndefined()).toEqual({ code: 412, index: 2 });
+  });
+
+  it("should return none for any other error message", () => {
+    const result = parseBatchOperationFailure("Request rate is large");
+
+    expect(result.isNone()).toBeTruthy();
+  });
+});
+
+describe("registerBatchStoredProcedure", () => {
+  it("should replace the stored procedure if it already exists", async () => {
+    replaceMock.mockResolvedValueOnce({});
+
+    const result = await registerBatchStoredProcedure(container).run();
+
+    expect(containerMock.scripts.storedProcedure).toHaveBeenCalledWith(
+      BATCH_STORED_PROCEDURE_ID
+    );
+    expect(replaceMock).toHaveBeenCalledWith(BatchStoredProcedure);
+    expect(createMock).not.toHaveBeenCalled();
+    expect(isRight(result)).toBeTruthy();
+  });
+
+  it("should create the stored procedure if it does not exist", async () => {
+    replaceMock.mockRejectedValueOnce({ code: 404 });
+    createMock.mockResolvedValueOnce({});
+
+    const result = await registerBatchStoredProcedure(container).run();
+
+    expect(createMock).toHaveBeenCalledWith(BatchStoredProcedure);
+    expect(isRight(result)).toBeTruthy();
+  });
+
+  it("should fail on any other error", async () => {
+    replaceMock.mockRejectedValueOnce({ code: 500 });
+
+    const result = await registerBatchStoredProcedure(container).run();
+
+    expect(createMock).not.toHaveBeenCalled();
+    expect(isLeft(result)).toBeTruthy();
+  });
+});
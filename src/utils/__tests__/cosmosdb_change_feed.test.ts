@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+import { none, some } from "fp-ts/lib/Option";
+import { fromLeft, taskEither } from "fp-ts/lib/TaskEither";
+
+import {
+  getBlobCheckpointStore,
+  IChangeFeedCheckpointStore,
+  processChangeFeed
+} from "../cosmosdb_change_feed";
+import { ChangeFeedStart, IPage } from "../cosmosdb_model";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+const aLeaseId = "a-lease-id";
+const aCheckpointName = "a-checkpoint";
+
+const blobServiceMock = {
+  acquireLease: jest.fn((_, __, ___, f) => f(undefined, { id: aLeaseId })),
+  createBlockBlobFromText: jest.fn((_, __, ___, ____, f) => f(undefined, {})),
+  getBlobToText: jest.fn((_, __, ___, f) => f(undefined, "a-continuation")),
+  releaseLease: jest.fn((_, __, ___, ____, f) => f(undefined, {}))
+};
+
+describe("getBlobCheckpointStore", () => {
+  const store = getBlobCheckpointStore(
+    blobServiceMock as any,
+    "a-container",
+    30
+  );
+
+  it("should create the checkpoint blob before acquiring the lease", async () => {
+    const result = await store.acquireLease(aCheckpointName).run();
+
+    expect(result.value).toBe(aLeaseId);
+    expect(blobServiceMock.createBlockBlobFromText).toHaveBeenCalledWith(
+      "a-container",
+      aCheckpointName,
+      "",
+      { accessConditions: { EtagNonMatch: "*" } },
+      expect.any(Function)
+    );
+    expect(blobServiceMock.acquireLease).toHaveBeenCalledWith(
+      "a-container",
+      aCheckpointName,
+      { leaseDuration: 30 },
+      expect.any(Function)
+    );
+  });
+
+  it("should acquire the lease on an existing checkpoint blob", async () => {
+    blobServiceMock.createBlockBlobFromText.mockImplementationOnce(
+      (_, __, ___, ____, f) => f({ code: "BlobAlreadyExists" })
+    );
+
+    const result = await store.acquireLease(aCheckpointName).run();
+
+    expect(result.value).toBe(aLeaseId);
+  });
+
+  it("should fail if the lease is held by someone else", async () => {
+    blobServiceMock.acquireLease.mockImplementationOnce((_, __, ___, f) =>
+      f({ code: "LeaseAlreadyPresent" })
+    );
+
+    const result = await store.acquireLease(aCheckpointName).run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+
+  it("should read a stored checkpoint", async () => {
+    const result = await store.getCheckpoint(aCheckpointName).run();
+
+    expect(result.value).toEqual(some("a-continuation"));
+  });
+
+  it("should read an empty checkpoint as missing", async () => {
+    blobServiceMock.getBlobToText.mockImplementationOnce((_, __, ___, f) =>
+      f(undefined, "")
+    );
+
+    const result = await store.getCheckpoint(aCheckpointName).run();
+
+    expect(result.value).toEqual(none);
+  });
+
+  it("should save a checkpoint holding the lease", async () => {
+    const result = await store
+      .saveCheckpoint(aCheckpointName, aLeaseId, "a-continuation")
+      .run();
+
+    expect(isRight(result)).toBeTruthy();
+    expect(blobServiceMock.createBlockBlobFromText).toHaveBeenCalledWith(
+      "a-container",
+      aCheckpointName,
+      "a-continuation",
+      { leaseId: aLeaseId },
+      expect.any(Function)
+    );
+  });
+});
+
+describe("processChangeFeed", () => {
+  const storeMock = {
+    acquireLease: jest.fn(() => taskEither.of(aLeaseId)),
+    getCheckpoint: jest.fn(() => taskEither.of(none)),
+    releaseLease: jest.fn(() => taskEither.of(undefined)),
+    saveCheckpoint: jest.fn(() => taskEither.of(undefined))
+  };
+  const store = (storeMock as unknown) as IChangeFeedCheckpointStore;
+
+  // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+  async function* pagesOf<T>(
+    pages: ReadonlyArray<IPage<T>>
+  ): AsyncGenerator<IPage<T>> {
+    for (const page of pages) {
+      yield page;
+    }
+  }
+
+  const somePages: ReadonlyArray<IPage<number>> = [
+    { continuationToken: some("c1"), items: [1, 2] },
+    { continuationToken: some("c2"), items: [3] }
+  ];
+
+  it("should handle every page and save a checkpoint after each", async () => {
+    const getChangeFeed = jest.fn((_: ChangeFeedStart) => pagesOf(somePages));
+    const handler = jest.fn(() => taskEither.of<Error, void>(undefined));
+
+    const result = await processChangeFeed(
+      getChangeFeed,
+      store,
+      aCheckpointName,
+      { kind: "BEGINNING" },
+      handler
+    ).run();
+
+    expect(result.value).toBe(3);
+    expect(getChangeFeed).toHaveBeenCalledWith({ kind: "BEGINNING" });
+    expect(handler).toHaveBeenNthCalledWith(1, [1, 2]);
+    expect(handler).toHaveBeenNthCalledWith(2, [3]);
+    expect(storeMock.saveCheckpoint.mock.calls).toEqual([
+      [aCheckpointName, aLeaseId, "c1"],
+      [aCheckpointName, aLeaseId, "c2"]
+    ]);
+    expect(storeMock.releaseLease).toHaveBeenCalledWith(
+      aCheckpointName,
+      aLeaseId
+    );
+  });
+
+  it("should resume from the stored checkpoint", async () => {
+    storeMock.getCheckpoint.mockImplementationOnce(() =>
+      taskEither.of(some("c1") as any)
+    );
+    const getChangeFeed = jest.fn((_: ChangeFeedStart) => pagesOf([]));
+
+    const result = await processChangeFeed(
+      getChangeFeed,
+      store,
+      aCheckpointName,
+      { kind: "BEGINNING" },
+      () => taskEither.of(undefined)
+    ).run();
+
+    expect(result.value).toBe(0);
+    expect(getChangeFeed).toHaveBeenCalledWith({
+      continuation: "c1",
+      kind: "CONTINUATION"
+    });
+  });
+
+  it("should stop on the first failing page and release the lease", async () => {
+    const anError = new Error("handler failed");
+    const handler = jest
+      .fn()
+      .mockImplementationOnce(() => taskEither.of(undefined))
+      .mockImplementationOnce(() => fromLeft(anError));
+
+    const result = await processChangeFeed(
+      () => pagesOf(somePages),
+      store,
+      aCheckpointName,
+      { kind: "NOW" },
+      handler
+    ).run();
+
+    expect(result.value).toBe(anError);
+    expect(storeMock.saveCheckpoint).toHaveBeenCalledTimes(1);
+    expect(storeMock.releaseLease).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not read the change feed without the lease", async () => {
+    storeMock.acquireLease.mockImplementationOnce(() =>
+      fromLeft(new Error("lease already present"))
+    );
+    const getChangeFeed = jest.fn();
+
+    const result = await processChangeFeed(
+      getChangeFeed,
+      store,
+      aCheckpointName,
+      { kind: "NOW" },
+      () => taskEither.of(undefined)
+    ).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    expect(getChangeFeed).not.toHaveBeenCalled();
+    expect(storeMock.releaseLease).not.toHaveBeenCalled();
+  });
+});
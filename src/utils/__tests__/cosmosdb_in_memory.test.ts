@@ -0,0 +1,351 @@
+import * as t from "io-ts";
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import { Container } from "@azure/cosmos";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { Millisecond } from "@pagopa/ts-commons/lib/units";
+
+import { asyncIterableToArray } from "../async";
+import { createInMemoryContainer } from "../cosmosdb_in_memory";
+import { BaseModel, CosmosdbModel, CosmosResource } from "../cosmosdb_model";
+import {
+  CosmosdbModelVersioned,
+  RetrievedVersionedModel
+} from "../cosmosdb_model_versioned";
+
+const MyDocument = t.interface({
+  count: t.number,
+  name: t.string
+});
+type MyDocument = t.TypeOf<typeof MyDocument>;
+
+const NewMyDocument = t.intersection([MyDocument, BaseModel]);
+type NewMyDocument = t.TypeOf<typeof NewMyDocument>;
+
+const RetrievedMyDocument = t.intersection([MyDocument, CosmosResource]);
+type RetrievedMyDocument = t.TypeOf<typeof RetrievedMyDocument>;
+
+class MyModel extends CosmosdbModel<
+  MyDocument,
+  NewMyDocument,
+  RetrievedMyDocument
+> {
+  constructor(c: Container) {
+    super(c, NewMyDocument, RetrievedMyDocument);
+  }
+}
+
+const RetrievedMyVersionedDocument = t.intersection([
+  MyDocument,
+  RetrievedVersionedModel
+]);
+type RetrievedMyVersionedDocument = t.TypeOf<
+  typeof RetrievedMyVersionedDocument
+>;
+
+// eslint-disable-next-line max-classes-per-file
+class MyVersionedModel extends CosmosdbModelVersioned<
+  MyDocument,
+  MyDocument,
+  RetrievedMyVersionedDocument,
+  "name"
+> {
+  constructor(c: Container) {
+    super(c, MyDocument, RetrievedMyVersionedDocument, "name");
+  }
+}
+
+const aDocument = (id: string, name: string, count: number): NewMyDocument => ({
+  count,
+  id: id as NonEmptyString,
+  name
+});
+
+const queryIds = async (
+  container: Container,
+  query: Parameters<Container["items"]["query"]>[0],
+  options?: Parameters<Container["items"]["query"]>[1]
+): Promise<ReadonlyArray<string>> =>
+  (await container.items.query(query, options).fetchAll()).resources.map(
+    _ => _.id
+  );
+
+describe("createInMemoryContainer", () => {
+  it("should create and read a document", async () => {
+    const container = createInMemoryContainer("/name");
+    const created = await container.items.create(aDocument("1", "a", 1));
+
+    expect(created.statusCode).toBe(201);
+    expect(created.resource).toEqual(
+      expect.objectContaining({
+        _etag: expect.any(String),
+        _rid: expect.any(String),
+        _self: expect.any(String),
+        _ts: expect.any(Number),
+        count: 1,
+        id: "1",
+        name: "a"
+      })
+    );
+
+    const read = await container.item("1", "a").read();
+    expect(read.resource).toEqual(created.resource);
+  });
+
+  it("should return an empty response reading a missing document", async () => {
+    const container = createInMemoryContainer("/name");
+    await container.items.create(aDocument("1", "a", 1));
+
+    const read = await container.item("1", "b").read();
+    expect(read.statusCode).toBe(404);
+    expect(read.resource).toBeUndefined();
+  });
+
+  it("should fail with 409 creating a duplicated document", async () => {
+    const container = createInMemoryContainer("/name");
+    await container.items.create(aDocument("1", "a", 1));
+
+    await expect(
+      container.items.create(aDocument("1", "a", 2))
+    ).rejects.toHaveProperty("code", 409);
+    // the same id is allowed on another partition
+    await expect(
+      container.items.create(aDocument("1", "b", 2))
+    ).resolves.toHaveProperty("statusCode", 201);
+  });
+
+  it("should upsert a document and update its _etag", async () => {
+    const container = createInMemoryContainer();
+    const created = await container.items.upsert(aDocument("1", "a", 1));
+    const updated = await container.items.upsert(aDocument("1", "a", 2));
+
+    expect(created.statusCode).toBe(201);
+    expect(updated.statusCode).toBe(200);
+    expect(updated.resource).toHaveProperty("count", 2);
+    expect(updated.etag).not.toEqual(created.etag);
+  });
+
+  it("should replace a document only if the etag matches", async () => {
+    const container = createInMemoryContainer();
+    const created = await container.items.create(aDocument("1", "a", 1));
+
+    await expect(
+      container.item("1").replace(aDocument("1", "a", 2), {
+        accessCondition: { condition: "another-etag", type: "IfMatch" }
+      })
+    ).rejects.toHaveProperty("code", 412);
+
+    const replaced = await container.item("1").replace(aDocument("1", "a", 3), {
+      accessCondition: { condition: created.etag, type: "IfMatch" }
+    });
+    expect(replaced.resource).toHaveProperty("count", 3);
+  });
+
+  it("should delete a document", async () => {
+    const container = createInMemoryContainer();
+    await container.items.create(aDocument("1", "a", 1));
+
+    await container.item("1", "1").delete();
+    await expect(container.item("1", "1").delete()).rejects.toHaveProperty(
+      "code",
+      404
+    );
+    expect((await container.item("1", "1").read()).resource).toBeUndefined();
+  });
+
+  describe("query", () => {
+    const getContainer = async (): Promise<Container> => {
+      const container = createInMemoryContainer("/name");
+      await container.items.create(aDocument("1", "a", 3));
+      await container.items.create(aDocument("2", "b", 1));
+      await container.items.create(aDocument("3", "a", 2));
+      return container;
+    };
+
+    it("should filter documents by equality on parameters", async () => {
+      expect(
+        await queryIds(await getContainer(), {
+          parameters: [{ name: "@name", value: "a" }],
+          query: "SELECT * FROM m WHERE m.name = @name"
+        })
+      ).toEqual(["1", "3"]);
+    });
+
+    it("should combine conditions", async () => {
+      expect(
+        await queryIds(
+          await getContainer(),
+          "SELECT * FROM c WHERE (c.name = 'a' AND c.count > 2) OR c.id IN ('2')"
+        )
+      ).toEqual(["1", "2"]);
+    });
+
+    it("should check whether fields are defined", async () => {
+      const container = await getContainer();
+      await container.items.create({ id: "4", name: "a" });
+      expect(
+        await queryIds(
+          container,
+          "SELECT * FROM m WHERE NOT IS_DEFINED(m.count) OR m.count = 1"
+        )
+      ).toEqual(["2", "4"]);
+    });
+
+    it("should sort and limit the results", async () => {
+      const container = await getContainer();
+      expect(
+        await queryIds(container, "SELECT * FROM m ORDER BY m.count DESC")
+      ).toEqual(["1", "3", "2"]);
+      expect(
+        await queryIds(container, {
+          parameters: [{ name: "@top", value: 2 }],
+          query: "SELECT TOP @top * FROM m ORDER BY m.name ASC, m.count ASC"
+        })
+      ).toEqual(["3", "1"]);
+    });
+
+    it("should project the selected fields", async () => {
+      const { resources } = await (await getContainer()).items
+        .query("SELECT m.id, m.count FROM m WHERE m.id = '2'")
+        .fetchAll();
+      expect(resources).toEqual([{ count: 1, id: "2" }]);
+    });
+
+    it("should restrict the query to the provided partition", async () => {
+      expect(
+        await queryIds(await getContainer(), "SELECT * FROM m", {
+          partitionKey: "b"
+        })
+      ).toEqual(["2"]);
+    });
+
+    it("should paginate the results with continuation tokens", async () => {
+      const container = await getContainer();
+      const pages = await asyncIterableToArray(
+        container.items
+          .query("SELECT * FROM m", { maxItemCount: 2 })
+          .getAsyncIterator()
+      );
+      expect(pages.map(_ => _.resources.map(r => r.id))).toEqual([
+        ["1", "2"],
+        ["3"]
+      ]);
+      expect(pages[0].continuationToken).toBeDefined();
+
+      const resumed = await asyncIterableToArray(
+        container.items
+          .query("SELECT * FROM m", {
+            continuationToken: pages[0].continuationToken,
+            maxItemCount: 2
+          })
+          .getAsyncIterator()
+      );
+      expect(resumed.map(_ => _.resources.map(r => r.id))).toEqual([["3"]]);
+    });
+
+    it("should fetch the pages one at a time", async () => {
+      const iterator = (await getContainer()).items.query("SELECT * FROM m", {
+        maxItemCount: 2
+      });
+
+      const first = await iterator.fetchNext();
+      const second = await iterator.fetchNext();
+
+      expect(first.resources.map(_ => _.id)).toEqual(["1", "2"]);
+      expect(first.hasMoreResults).toBeTruthy();
+      expect(second.resources.map(_ => _.id)).toEqual(["3"]);
+      expect(second.hasMoreResults).toBeFalsy();
+      expect(second.continuationToken).toBeUndefined();
+    });
+
+    it("should fail with 400 on an unsupported query", async () => {
+      await expect(
+        queryIds(await getContainer(), "SELECT COUNT(1) FROM m")
+      ).rejects.toHaveProperty("code", 400);
+    });
+  });
+});
+
+describe("CosmosdbModel on an in-memory container", () => {
+  it("should create, find and replace a document", async () => {
+    const model = new MyModel(createInMemoryContainer());
+
+    const created = await model.create(aDocument("1", "a", 1)).run();
+    expect(isRight(created)).toBeTruthy();
+
+    const conflict = await model.create(aDocument("1", "a", 1)).run();
+    expect(isLeft(conflict)).toBeTruthy();
+
+    const found = await model.find(["1" as NonEmptyString]).run();
+    expect(found.map(_ => _.map(d => d.count).toUndefined()).value).toBe(1);
+
+    const replaced = await found
+      .map(_ => _.toUndefined() as RetrievedMyDocument)
+      .fold(
+        () => Promise.reject(new Error("not found")),
+        document => model.replace({ ...document, count: 2 }).run()
+      );
+    expect(replaced.map(_ => _.count).value).toBe(2);
+  });
+
+  it("should query page by page a model with a retry policy", async () => {
+    // eslint-disable-next-line max-classes-per-file
+    class MyModelWithRetry extends CosmosdbModel<
+      MyDocument,
+      NewMyDocument,
+      RetrievedMyDocument
+    > {
+      constructor(c: Container) {
+        super(c, NewMyDocument, RetrievedMyDocument, {
+          baseDelay: 1 as Millisecond,
+          maxAttempts: 3,
+          maxDelay: 10 as Millisecond
+        });
+      }
+    }
+    const model = new MyModelWithRetry(createInMemoryContainer("/name"));
+    await model.create(aDocument("1", "a", 1)).run();
+    await model.create(aDocument("2", "b", 2)).run();
+    await model.create(aDocument("3", "a", 3)).run();
+
+    const pages = await asyncIterableToArray(
+      model.getQueryIterator("SELECT * FROM m", {
+        maxItemCount: 1,
+        partitionKey: "a"
+      })
+    );
+
+    expect(
+      pages.map(page =>
+        page.map(_ =>
+          _.fold(
+            () => undefined,
+            d => d.id
+          )
+        )
+      )
+    ).toEqual([["1"], ["3"]]);
+  });
+});
+
+describe("CosmosdbModelVersioned on an in-memory container", () => {
+  it("should create new versions and find the last one", async () => {
+    const model = new MyVersionedModel(createInMemoryContainer("/name"));
+
+    await model.create({ count: 1, name: "a" }).run();
+    await model.upsert({ count: 2, name: "a" }).run();
+    await model.upsert({ count: 1, name: "b" }).run();
+
+    const last = await model
+      .findLastVersionByModelId(["a"])
+      .map(_ => _.toUndefined())
+      .run();
+    expect(last.value).toEqual(
+      expect.objectContaining({ count: 2, name: "a", version: 1 })
+    );
+
+    const deleted = await model.deleteAllVersions(["a"]).run();
+    expect(deleted.value).toBe(2);
+  });
+});
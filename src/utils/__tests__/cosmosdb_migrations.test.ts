@@ -0,0 +1,165 @@
+import * as t from "io-ts";
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import { Container } from "@azure/cosmos";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { createInMemoryContainer } from "../cosmosdb_in_memory";
+import {
+  SchemaUpgrader,
+  SCHEMA_VERSION_FIELD,
+  withSchemaMigrations
+} from "../cosmosdb_migrations";
+import { BaseModel, CosmosdbModel, CosmosResource } from "../cosmosdb_model";
+
+// v0 had a single "name" field, v1 split it into first and last name,
+// v2 added the "isEnabled" flag
+const MyDocument = t.interface({
+  firstName: t.string,
+  isEnabled: t.boolean,
+  lastName: t.string
+});
+type MyDocument = t.TypeOf<typeof MyDocument>;
+
+const upgraders: ReadonlyArray<SchemaUpgrader> = [
+  ({ name, ...document }) => {
+    const [firstName, lastName] = String(name).split(" ");
+    return { ...document, firstName, lastName };
+  },
+  document => ({ isEnabled: true, ...document })
+];
+
+const NewMyDocument = withSchemaMigrations(
+  t.intersection([MyDocument, BaseModel]),
+  upgraders
+);
+type NewMyDocument = t.TypeOf<typeof NewMyDocument>;
+
+const RetrievedMyDocument = withSchemaMigrations(
+  t.intersection([MyDocument, CosmosResource]),
+  upgraders
+);
+type RetrievedMyDocument = t.TypeOf<typeof RetrievedMyDocument>;
+
+class MyModel extends CosmosdbModel<
+  MyDocument,
+  NewMyDocument,
+  RetrievedMyDocument
+> {
+  constructor(c: Container) {
+    super(c, NewMyDocument, RetrievedMyDocument);
+  }
+}
+
+const aDocumentV0 = { id: "1", name: "Mario Rossi" };
+const aDocumentV1 = {
+  firstName: "Luigi",
+  id: "2",
+  lastName: "Verdi",
+  [SCHEMA_VERSION_FIELD]: 1
+};
+
+describe("withSchemaMigrations", () => {
+  it("should upgrade a document without a schema version", () => {
+    const result = NewMyDocument.decode(aDocumentV0);
+    expect(result.value).toEqual({
+      firstName: "Mario",
+      id: "1",
+      isEnabled: true,
+      lastName: "Rossi",
+      [SCHEMA_VERSION_FIELD]: 2
+    });
+  });
+
+  it("should apply only the upgraders following the schema version", () => {
+    const result = NewMyDocument.decode({ ...aDocumentV1, isEnabled: false });
+    expect(isRight(result)).toBeTruthy();
+    expect(result.value).toHaveProperty("isEnabled", false);
+  });
+
+  it("should reject a document with an unknown schema version", () => {
+    expect(
+      isLeft(
+        NewMyDocument.decode({
+          ...aDocumentV1,
+          isEnabled: true,
+          [SCHEMA_VERSION_FIELD]: 3
+        })
+      )
+    ).toBeTruthy();
+  });
+
+  it("should tag encoded documents with the latest schema version", () => {
+    expect(
+      NewMyDocument.encode({
+        firstName: "Mario",
+        id: "1" as NonEmptyString,
+        isEnabled: true,
+        lastName: "Rossi"
+      })
+    ).toHaveProperty(SCHEMA_VERSION_FIELD, 2);
+  });
+});
+
+describe("migrateToLatestSchema", () => {
+  const getContainer = async (): Promise<Container> => {
+    const container = createInMemoryContainer();
+    await container.items.create(aDocumentV0);
+    await container.items.create(aDocumentV1);
+    return container;
+  };
+
+  it("should upgrade older documents on read", async () => {
+    const model = new MyModel(await getContainer());
+    const result = await model.find(["1" as NonEmptyString]).run();
+    expect(result.map(_ => _.toUndefined()).value).toEqual(
+      expect.objectContaining({ firstName: "Mario", lastName: "Rossi" })
+    );
+  });
+
+  it("should rewrite the older documents to the latest schema", async () => {
+    const container = await getContainer();
+    const model = new MyModel(container);
+    await model
+      .create({
+        firstName: "Anna",
+        id: "3" as NonEmptyString,
+        isEnabled: false,
+        lastName: "Bianchi"
+      })
+      .run();
+
+    const result = await model.migrateToLatestSchema().run();
+    expect(result.value).toEqual({ failed: [], migrated: 2 });
+
+    const { resource } = await container.item("2", "2").read();
+    expect(resource).toEqual(
+      expect.objectContaining({
+        firstName: "Luigi",
+        isEnabled: true,
+        [SCHEMA_VERSION_FIELD]: 2
+      })
+    );
+
+    const again = await model.migrateToLatestSchema().run();
+    expect(again.value).toEqual({ failed: [], migrated: 0 });
+  });
+
+  it("should report the documents which cannot be migrated", async () => {
+    const container = await getContainer();
+    await container.items.create({ id: "4", [SCHEMA_VERSION_FIELD]: 1 });
+    const model = new MyModel(container);
+
+    const result = await model.migrateToLatestSchema().run();
+    expect(result.value).toEqual({
+      failed: [
+        expect.objectContaining({
+          error: expect.objectContaining({ kind: "COSMOS_DECODING_ERROR" }),
+          id: "4"
+        })
+      ],
+      migrated: 2
+    });
+  });
+});
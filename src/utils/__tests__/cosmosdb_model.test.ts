@@ -1,16 +1,34 @@
 import * as t from "io-ts";
 
-import { isLeft, isRight } from "fp-ts/lib/Either";
+import { isLeft, isRight, right } from "fp-ts/lib/Either";
 
-import { Container, ErrorResponse, ResourceResponse } from "@azure/cosmos";
+import {
+  ClientContext,
+  Container,
+  CosmosClient,
+  ErrorResponse,
+  FeedResponse,
+  ResourceResponse
+} from "@azure/cosmos";
 
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { Millisecond } from "@pagopa/ts-commons/lib/units";
+import { TelemetryClient } from "applicationinsights";
 import {
   BaseModel,
   CosmosdbModel,
+  CosmosDecodingError,
+  CosmosEmptyResponse,
+  CosmosErrorResponse,
   CosmosResource,
-  DocumentSearchKey
+  DocumentSearchKey,
+  getRetryDelay,
+  IRetryPolicy,
+  toCosmosRuntimeError
 } from "../cosmosdb_model";
+import { ErrorTypes } from "../errors";
+import { BATCH_STORED_PROCEDURE_ID } from "../cosmosdb_batch";
+import { asyncIterableToArray } from "../async";
 
 beforeEach(() => {
   jest.resetAllMocks();
@@ -51,11 +69,16 @@ class MyPartitionedModel extends CosmosdbModel<
 }
 
 const readMock = jest.fn();
+const replaceMock = jest.fn();
 const containerMock = {
   item: jest.fn(),
   items: {
+    changeFeed: jest.fn(),
     create: jest.fn(),
     upsert: jest.fn()
+  },
+  scripts: {
+    storedProcedure: jest.fn()
   }
 };
 const container = (containerMock as unknown) as Container;
@@ -287,3 +310,885 @@ describe("find", () => {
     }
   });
 });
+
+describe("replace", () => {
+  const aRetrievedDocument = {
+    ...aDocument,
+    ...someMetadata
+  };
+
+  it("should replace a document using its _etag as condition", async () => {
+    replaceMock.mockResolvedValueOnce(
+      new ResourceResponse(
+        { ...aRetrievedDocument, _etag: "_etag2", test: "updated" },
+        {},
+        200,
+        200
+      )
+    );
+    containerMock.item.mockReturnValue({ replace: replaceMock });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .replace({ ...aRetrievedDocument, test: "updated" })
+      .run();
+
+    expect(containerMock.item).toHaveBeenCalledWith(testId);
+    expect(replaceMock).toHaveBeenCalledWith(
+      { ...aRetrievedDocument, test: "updated" },
+      { accessCondition: { condition: "_etag", type: "IfMatch" } }
+    );
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toEqual({
+        ...aRetrievedDocument,
+        _etag: "_etag2",
+        test: "updated"
+      });
+    }
+  });
+
+  it("should return a conflict error if the precondition fails", async () => {
+    const preconditionFailedResponse: ErrorResponse = new Error();
+    // eslint-disable-next-line functional/immutable-data
+    preconditionFailedResponse.code = 412;
+    replaceMock.mockRejectedValueOnce(preconditionFailedResponse);
+    containerMock.item.mockReturnValue({ replace: replaceMock });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model.replace(aRetrievedDocument).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_CONFLICT_RESPONSE");
+    }
+  });
+
+  it("should return the query error", async () => {
+    replaceMock.mockRejectedValueOnce(errorResponse);
+    containerMock.item.mockReturnValue({ replace: replaceMock });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model.replace(aRetrievedDocument).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+  });
+
+  it("should fail on empty response", async () => {
+    replaceMock.mockResolvedValueOnce({});
+    containerMock.item.mockReturnValue({ replace: replaceMock });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model.replace(aRetrievedDocument).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value).toEqual({ kind: "COSMOS_EMPTY_RESPONSE" });
+    }
+  });
+});
+
+describe("patch", () => {
+  const aRetrievedDocument = {
+    ...aDocument,
+    ...someMetadata
+  };
+
+  it("should apply the operations and replace the document", async () => {
+    readMock.mockResolvedValueOnce(
+      new ResourceResponse(aRetrievedDocument, {}, 200, 200)
+    );
+    replaceMock.mockImplementationOnce(
+      async doc =>
+        new ResourceResponse({ ...doc, _etag: "_etag2" }, {}, 200, 200)
+    );
+    containerMock.item.mockReturnValue({
+      read: readMock,
+      replace: replaceMock
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .patch(
+        [testId, testPartition],
+        [{ op: "set", path: "test", value: "patched" }]
+      )
+      .run();
+
+    expect(containerMock.item).toHaveBeenCalledWith(testId, testPartition);
+    expect(replaceMock).toHaveBeenCalledWith(
+      { ...aRetrievedDocument, test: "patched" },
+      { accessCondition: { condition: "_etag", type: "IfMatch" } }
+    );
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toEqual({
+        ...aRetrievedDocument,
+        _etag: "_etag2",
+        test: "patched"
+      });
+    }
+  });
+
+  it("should not replace the document if the condition is not satisfied", async () => {
+    readMock.mockResolvedValueOnce(
+      new ResourceResponse(aRetrievedDocument, {}, 200, 200)
+    );
+    containerMock.item.mockReturnValue({
+      read: readMock,
+      replace: replaceMock
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .patch(
+        [testId, testPartition],
+        [{ op: "set", path: "test", value: "patched" }],
+        doc => doc.test === "another value"
+      )
+      .run();
+
+    expect(replaceMock).not.toHaveBeenCalled();
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_CONFLICT_RESPONSE");
+    }
+  });
+
+  it("should not replace the document if the patched document is not valid", async () => {
+    readMock.mockResolvedValueOnce(
+      new ResourceResponse(aRetrievedDocument, {}, 200, 200)
+    );
+    containerMock.item.mockReturnValue({
+      read: readMock,
+      replace: replaceMock
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .patch(
+        [testId, testPartition],
+        [
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          { op: "set", path: "test", value: 1 as any }
+        ]
+      )
+      .run();
+
+    expect(replaceMock).not.toHaveBeenCalled();
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_DECODING_ERROR");
+    }
+  });
+
+  it("should return an empty response if the document does not exist", async () => {
+    readMock.mockResolvedValueOnce(
+      new ResourceResponse(undefined, {}, 200, 200)
+    );
+    containerMock.item.mockReturnValue({
+      read: readMock,
+      replace: replaceMock
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .patch(
+        [testId, testPartition],
+        [{ op: "set", path: "test", value: "patched" }]
+      )
+      .run();
+
+    expect(replaceMock).not.toHaveBeenCalled();
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value).toEqual({ kind: "COSMOS_EMPTY_RESPONSE" });
+    }
+  });
+});
+
+describe("delete", () => {
+  it("should delete a document", async () => {
+    const deleteMock = jest.fn().mockResolvedValueOnce({});
+    containerMock.item.mockReturnValue({ delete: deleteMock });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model.delete([testId, testPartition]).run();
+
+    expect(containerMock.item).toHaveBeenCalledWith(testId, testPartition);
+    expect(deleteMock).toHaveBeenCalled();
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toBe(testId);
+    }
+  });
+
+  it("should return the query error", async () => {
+    containerMock.item.mockReturnValue({
+      delete: jest.fn().mockRejectedValueOnce(errorResponse)
+    });
+    const model = new MyModel(container);
+
+    const result = await model.delete([testId]).run();
+
+    expect(containerMock.item).toHaveBeenCalledWith(testId, testId);
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+  });
+});
+
+describe("batch", () => {
+  const aRetrievedDocument = {
+    ...aDocument,
+    ...someMetadata
+  };
+  const anotherDocument = {
+    ...aDocument,
+    id: "test-id-2" as NonEmptyString
+  };
+
+  it("should execute the operations through the batch stored procedure", async () => {
+    const executeMock = jest
+      .fn()
+      .mockResolvedValueOnce(
+        new ResourceResponse(
+          [{ ...anotherDocument, ...someMetadata }, aRetrievedDocument, null],
+          {},
+          200,
+          200
+        )
+      );
+    containerMock.scripts.storedProcedure.mockReturnValue({
+      execute: executeMock
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .batch(testPartition, [
+        { operationType: "Create", resourceBody: anotherDocument },
+        { operationType: "Replace", resourceBody: aRetrievedDocument },
+        { id: "test-id-3", operationType: "Delete" }
+      ])
+      .run();
+
+    expect(containerMock.scripts.storedProcedure).toHaveBeenCalledWith(
+      BATCH_STORED_PROCEDURE_ID
+    );
+    expect(executeMock).toHaveBeenCalledWith(
+      testPartition,
+      [
+        [
+          {
+            id: anotherDocument.id,
+            operationType: "Create",
+            resourceBody: anotherDocument
+          },
+          {
+            id: testId,
+            ifMatch: "_etag",
+            operationType: "Replace",
+            resourceBody: aRetrievedDocument
+          },
+          { id: "test-id-3", operationType: "Delete" }
+        ]
+      ],
+      undefined
+    );
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value.map(_ => _.toUndefined())).toEqual([
+        { ...anotherDocument, ...someMetadata },
+        aRetrievedDocument,
+        undefined
+      ]);
+    }
+  });
+
+  it("should return the operation which aborted the batch", async () => {
+    const batchErrorResponse: ErrorResponse = new Error(
+      "Exception = Error: BATCH_OPERATION_FAILED(1,409)"
+    );
+    // eslint-disable-next-line functional/immutable-data
+    batchErrorResponse.code = 400;
+    containerMock.scripts.storedProcedure.mockReturnValue({
+      execute: jest.fn().mockRejectedValueOnce(batchErrorResponse)
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .batch(testPartition, [
+        { operationType: "Upsert", resourceBody: aDocument },
+        { operationType: "Create", resourceBody: anotherDocument }
+      ])
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_BATCH_OPERATION_ERROR");
+      if (result.value.kind === "COSMOS_BATCH_OPERATION_ERROR") {
+        expect(result.value.index).toBe(1);
+        expect(result.value.error.code).toBe(409);
+      }
+    }
+  });
+
+  it("should return the query error", async () => {
+    containerMock.scripts.storedProcedure.mockReturnValue({
+      execute: jest.fn().mockRejectedValueOnce(errorResponse)
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .batch(testPartition, [
+        { operationType: "Upsert", resourceBody: aDocument }
+      ])
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+  });
+
+  it("should fail if a resulting document is not valid", async () => {
+    containerMock.scripts.storedProcedure.mockReturnValue({
+      execute: jest
+        .fn()
+        .mockResolvedValueOnce(
+          new ResourceResponse([{ id: testId }], {}, 200, 200)
+        )
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .batch(testPartition, [
+        { operationType: "Upsert", resourceBody: aDocument }
+      ])
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_DECODING_ERROR");
+    }
+  });
+});
+
+describe("bulkUpsert", () => {
+  // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+  async function* documentsOf<T>(
+    documents: ReadonlyArray<T>
+  ): AsyncGenerator<T> {
+    for (const document of documents) {
+      yield document;
+    }
+  }
+
+  const someDocuments = [1, 2, 3].map(i => ({
+    ...aDocument,
+    id: `test-id-${i}` as NonEmptyString
+  }));
+
+  const throttlingResponse: ErrorResponse = new Error();
+  // eslint-disable-next-line functional/immutable-data
+  throttlingResponse.code = 429;
+  // eslint-disable-next-line functional/immutable-data
+  throttlingResponse.retryAfterInMs = 1;
+
+  it("should upsert every document and report a summary", async () => {
+    containerMock.items.upsert.mockImplementation(
+      async doc =>
+        new ResourceResponse({ ...doc, ...someMetadata }, {}, 200, 200)
+    );
+    const model = new MyModel(container);
+
+    const events = await asyncIterableToArray(
+      model.bulkUpsert(documentsOf(someDocuments), { concurrency: 2 })
+    );
+
+    expect(containerMock.items.upsert).toHaveBeenCalledTimes(3);
+    expect(events).toHaveLength(4);
+    expect(
+      events
+        .filter(_ => _.kind === "BULK_UPSERT_ITEM_RESULT")
+        .map(_ => _.kind === "BULK_UPSERT_ITEM_RESULT" && _.document.id)
+        .sort()
+    ).toEqual(someDocuments.map(_ => _.id));
+    expect(events[3]).toEqual({
+      aborted: false,
+      failed: 0,
+      kind: "BULK_UPSERT_SUMMARY",
+      retried: 0,
+      succeeded: 3
+    });
+  });
+
+  it("should retry throttled upserts", async () => {
+    containerMock.items.upsert
+      .mockRejectedValueOnce(throttlingResponse)
+      .mockImplementation(
+        async doc =>
+          new ResourceResponse({ ...doc, ...someMetadata }, {}, 200, 200)
+      );
+    const model = new MyModel(container);
+
+    const events = await asyncIterableToArray(
+      model.bulkUpsert(documentsOf(someDocuments.slice(0, 1)), {
+        concurrency: 1
+      })
+    );
+
+    expect(containerMock.items.upsert).toHaveBeenCalledTimes(2);
+    expect(events[0]).toEqual(
+      expect.objectContaining({ document: someDocuments[0], retries: 1 })
+    );
+    expect(events[1]).toEqual(
+      expect.objectContaining({ retried: 1, succeeded: 1 })
+    );
+  });
+
+  it("should report failed upserts and stop when onError returns false", async () => {
+    containerMock.items.upsert.mockRejectedValue(errorResponse);
+    const onError = jest.fn().mockReturnValue(false);
+    const model = new MyModel(container);
+
+    const events = await asyncIterableToArray(
+      model.bulkUpsert(documentsOf(someDocuments), {
+        concurrency: 1,
+        maxRetries: 0,
+        onError
+      })
+    );
+
+    expect(containerMock.items.upsert).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "COSMOS_ERROR_RESPONSE" }),
+      someDocuments[0]
+    );
+    expect(events[1]).toEqual({
+      aborted: true,
+      failed: 1,
+      kind: "BULK_UPSERT_SUMMARY",
+      retried: 0,
+      succeeded: 0
+    });
+  });
+
+  it("should not exceed the given concurrency", async () => {
+    // eslint-disable-next-line functional/no-let
+    let [running, maxRunning] = [0, 0];
+    containerMock.items.upsert.mockImplementation(async doc => {
+      running++;
+      maxRunning = Math.max(running, maxRunning);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return new ResourceResponse({ ...doc, ...someMetadata }, {}, 200, 200);
+    });
+    const model = new MyModel(container);
+
+    await asyncIterableToArray(
+      model.bulkUpsert(documentsOf(someDocuments), { concurrency: 2 })
+    );
+
+    expect(maxRunning).toBe(2);
+  });
+});
+
+describe("getPaginatedQueryIterator", () => {
+  it("should return the pages along with their continuation token", async () => {
+    // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+    async function* pages(): AsyncGenerator<FeedResponse<unknown>> {
+      yield new FeedResponse(
+        [{ ...aDocument, ...someMetadata }],
+        { "x-ms-continuation": "aContinuationToken" },
+        true
+      );
+      yield new FeedResponse([], {}, false);
+    }
+    const queryMock = jest.fn().mockReturnValue({ getAsyncIterator: pages });
+    const model = new MyModel(({
+      items: { query: queryMock }
+    } as unknown) as Container);
+
+    const result = await asyncIterableToArray(
+      model.getPaginatedQueryIterator("SELECT * FROM m", {
+        continuationToken: "aPreviousToken",
+        maxItemCount: 1
+      })
+    );
+
+    expect(queryMock).toHaveBeenCalledWith("SELECT * FROM m", {
+      continuationToken: "aPreviousToken",
+      maxItemCount: 1
+    });
+    expect(result).toHaveLength(2);
+    expect(result[0].continuationToken.toUndefined()).toBe(
+      "aContinuationToken"
+    );
+    expect(result[0].items).toEqual([right({ ...aDocument, ...someMetadata })]);
+    expect(result[1].continuationToken.isNone()).toBeTruthy();
+  });
+});
+
+describe("retry policy", () => {
+  const trackDependencyMock = jest.fn();
+  const aRetryPolicy: IRetryPolicy = {
+    baseDelay: 1 as Millisecond,
+    maxAttempts: 3,
+    maxDelay: 10 as Millisecond,
+    telemetryClient: ({
+      trackDependency: trackDependencyMock
+    } as unknown) as TelemetryClient
+  };
+
+  // eslint-disable-next-line max-classes-per-file
+  class MyModelWithRetry extends CosmosdbModel<
+    MyDocument,
+    NewMyDocument,
+    RetrievedMyDocument
+  > {
+    constructor(c: Container) {
+      super(c, NewMyDocument, RetrievedMyDocument, aRetryPolicy);
+    }
+  }
+
+  const anErrorWithCode = (code: number): ErrorResponse =>
+    Object.assign(new Error(`error ${code}`), { code, retryAfterInMs: 1 });
+
+  it("should retry an operation failed with a transient error", async () => {
+    containerMock.items.create
+      .mockRejectedValueOnce(anErrorWithCode(429))
+      .mockRejectedValueOnce(anErrorWithCode(503))
+      .mockResolvedValueOnce(
+        new ResourceResponse({ ...aDocument, ...someMetadata }, {}, 200, 200)
+      );
+    const model = new MyModelWithRetry(container);
+    const result = await model.create(aDocument).run();
+
+    expect(isRight(result)).toBeTruthy();
+    expect(containerMock.items.create).toHaveBeenCalledTimes(3);
+    expect(trackDependencyMock).toHaveBeenCalledTimes(3);
+    expect(trackDependencyMock).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        name: "create",
+        properties: { attempt: 1 },
+        resultCode: "429",
+        success: false
+      })
+    );
+    expect(trackDependencyMock).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({
+        properties: { attempt: 3 },
+        resultCode: "OK",
+        success: true
+      })
+    );
+  });
+
+  it("should not retry an operation failed with a permanent error", async () => {
+    containerMock.items.upsert.mockRejectedValue(anErrorWithCode(400));
+    const model = new MyModelWithRetry(container);
+    const result = await model.upsert(aDocument).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    expect(containerMock.items.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail after the maximum number of attempts", async () => {
+    containerMock.item.mockReturnValue({ read: readMock });
+    readMock.mockRejectedValue(anErrorWithCode(429));
+    const model = new MyModelWithRetry(container);
+    const result = await model.find([testId]).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+    expect(readMock).toHaveBeenCalledTimes(aRetryPolicy.maxAttempts);
+  });
+
+  it("should retry a query page from the last continuation token", async () => {
+    const fetchNextMock = jest
+      .fn()
+      .mockResolvedValueOnce(
+        new FeedResponse(
+          [{ ...aDocument, ...someMetadata }],
+          { "x-ms-continuation": "aContinuationToken" },
+          true
+        )
+      )
+      .mockRejectedValueOnce(anErrorWithCode(429))
+      .mockResolvedValueOnce(new FeedResponse([], {}, false));
+    const queryMock = jest.fn().mockReturnValue({ fetchNext: fetchNextMock });
+    const model = new MyModelWithRetry(({
+      id: "test-container",
+      items: { query: queryMock }
+    } as unknown) as Container);
+
+    const result = await asyncIterableToArray(
+      model.getPaginatedQueryIterator("SELECT * FROM m", {
+        maxItemCount: 1,
+        partitionKey: testPartition
+      })
+    );
+
+    expect(result).toHaveLength(2);
+    expect(fetchNextMock).toHaveBeenCalledTimes(3);
+    expect(queryMock).toHaveBeenNthCalledWith(3, "SELECT * FROM m", {
+      continuationToken: "aContinuationToken",
+      maxItemCount: 1,
+      partitionKey: testPartition
+    });
+  });
+
+  it("should read every page of a query across partitions", async () => {
+    // the pages of a cross partition query have no continuation token
+    // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+    async function* pages(): AsyncGenerator<FeedResponse<unknown>> {
+      yield new FeedResponse([{ ...aDocument, ...someMetadata }], {}, true);
+      yield new FeedResponse([{ ...aDocument, ...someMetadata }], {}, false);
+    }
+    const fetchNextMock = jest.fn();
+    const queryMock = jest
+      .fn()
+      .mockReturnValue({ fetchNext: fetchNextMock, getAsyncIterator: pages });
+    const model = new MyModelWithRetry(({
+      id: "test-container",
+      items: { query: queryMock }
+    } as unknown) as Container);
+
+    const result = await asyncIterableToArray(
+      model.getQueryIterator("SELECT * FROM m", { maxItemCount: 1 })
+    );
+
+    expect(result).toHaveLength(2);
+    expect(queryMock).toHaveBeenCalledTimes(1);
+    expect(fetchNextMock).not.toHaveBeenCalled();
+  });
+
+  it("should fail a query after the maximum number of attempts", async () => {
+    const fetchNextMock = jest.fn().mockRejectedValue(anErrorWithCode(503));
+    const model = new MyModelWithRetry(({
+      id: "test-container",
+      items: { query: () => ({ fetchNext: fetchNextMock }) }
+    } as unknown) as Container);
+
+    await expect(
+      asyncIterableToArray(
+        model.getQueryIterator("SELECT * FROM m", {
+          partitionKey: testPartition
+        })
+      )
+    ).rejects.toMatchObject({ code: 503 });
+    expect(fetchNextMock).toHaveBeenCalledTimes(aRetryPolicy.maxAttempts);
+  });
+
+  it("should retry the upserts of a bulk by the policy only, counting the retries", async () => {
+    containerMock.items.upsert.mockRejectedValue(anErrorWithCode(429));
+    const model = new MyModelWithRetry(container);
+
+    const events = await asyncIterableToArray(
+      model.bulkUpsert(
+        {
+          // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+          async *[Symbol.asyncIterator](): AsyncGenerator<NewMyDocument> {
+            yield { ...aDocument, id: "test-id-1" as NonEmptyString };
+          }
+        },
+        { concurrency: 1, maxRetries: 5 }
+      )
+    );
+
+    expect(containerMock.items.upsert).toHaveBeenCalledTimes(
+      aRetryPolicy.maxAttempts
+    );
+    expect(events[0]).toEqual(
+      expect.objectContaining({
+        result: expect.anything(),
+        retries: aRetryPolicy.maxAttempts - 1
+      })
+    );
+    expect(events[1]).toEqual(
+      expect.objectContaining({ failed: 1, retried: 1 })
+    );
+  });
+
+  it("should not retry when no retry policy is provided", async () => {
+    containerMock.items.create.mockRejectedValueOnce(anErrorWithCode(429));
+    const model = new MyModel(container);
+    const result = await model.create(aDocument).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    expect(containerMock.items.create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const aRetryPolicy: IRetryPolicy = {
+    baseDelay: 100 as Millisecond,
+    maxAttempts: 10,
+    maxDelay: 1000 as Millisecond
+  };
+
+  it("should honor the delay suggested by the db engine", () => {
+    expect(
+      getRetryDelay(
+        aRetryPolicy,
+        CosmosErrorResponse(
+          Object.assign(new Error(), { code: 429, retryAfterInMs: 1234 })
+        ),
+        1
+      )
+    ).toBe(1234);
+  });
+
+  it("should apply an exponential backoff with jitter", () => {
+    [1, 2, 3, 4, 5].forEach(attempt => {
+      const backoff = Math.min(1000, 100 * Math.pow(2, attempt - 1));
+      const retryDelay = getRetryDelay(
+        aRetryPolicy,
+        CosmosEmptyResponse,
+        attempt
+      );
+      expect(retryDelay).toBeGreaterThanOrEqual(backoff / 2);
+      expect(retryDelay).toBeLessThanOrEqual(backoff);
+    });
+  });
+});
+
+describe("toCosmosRuntimeError", () => {
+  it.each([408, 429, 449, 503])(
+    "should classify an error response with code %d as transient",
+    code => {
+      expect(
+        toCosmosRuntimeError(
+          CosmosErrorResponse(Object.assign(new Error(), { code }))
+        ).kind
+      ).toBe(ErrorTypes.TransientError);
+    }
+  );
+
+  it.each([
+    CosmosErrorResponse(Object.assign(new Error(), { code: 409 })),
+    CosmosEmptyResponse,
+    CosmosDecodingError([])
+  ])("should classify %j as permanent", error => {
+    expect(toCosmosRuntimeError(error).kind).toBe(ErrorTypes.PermanentError);
+  });
+});
+
+describe("getChangeFeedIterator", () => {
+  // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+  async function* changesOf(
+    results: ReadonlyArray<ReadonlyArray<unknown>>
+  ): AsyncGenerator<{ continuation: string; result: ReadonlyArray<unknown> }> {
+    for (const [i, result] of results.entries()) {
+      yield { continuation: `continuation-${i}`, result };
+    }
+  }
+
+  const aChangeFeedIterator = (
+    ...results: ReadonlyArray<ReadonlyArray<unknown>>
+  ) => ({ getAsyncIterator: () => changesOf(results) });
+
+  it("should read the change feed of a partition from the beginning", async () => {
+    containerMock.items.changeFeed.mockReturnValueOnce(
+      aChangeFeedIterator([{ ...aDocument, ...someMetadata }], [{}])
+    );
+    const model = new MyPartitionedModel(container);
+
+    const pages = await asyncIterableToArray(
+      model.getChangeFeedIterator({ kind: "BEGINNING" }, testPartition, 10)
+    );
+
+    expect(containerMock.items.changeFeed).toHaveBeenCalledWith(testPartition, {
+      maxItemCount: 10,
+      startFromBeginning: true
+    });
+    expect(pages).toHaveLength(2);
+    expect(pages[0].continuationToken.toUndefined()).toBe("continuation-0");
+    expect(pages[0].items).toEqual([right({ ...aDocument, ...someMetadata })]);
+    expect(isLeft(pages[1].items[0])).toBeTruthy();
+  });
+
+  it("should resume the change feed from a continuation", async () => {
+    containerMock.items.changeFeed.mockReturnValueOnce(aChangeFeedIterator());
+    const model = new MyPartitionedModel(container);
+
+    const pages = await asyncIterableToArray(
+      model.getChangeFeedIterator(
+        {
+          continuation: "a-continuation",
+          kind: "CONTINUATION"
+        },
+        testPartition
+      )
+    );
+
+    expect(containerMock.items.changeFeed).toHaveBeenCalledWith(testPartition, {
+      continuation: "a-continuation",
+      maxItemCount: undefined
+    });
+    expect(pages).toEqual([]);
+  });
+
+  describe("on a container of the SDK", () => {
+    // no request is sent to the endpoint: the SDK either fails before
+    // sending it or fetches the feed by queryFeed, which is mocked
+    const sdkContainer = new CosmosClient({
+      endpoint: "https://localhost:8081",
+      key: Buffer.from("a-key").toString("base64")
+    })
+      .database("a-database")
+      .container("a-container");
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should be read by partition key only", async () => {
+      await expect(
+        sdkContainer.items.changeFeed({ startFromBeginning: true }).fetchNext()
+      ).rejects.toThrow("Container is partitioned");
+    });
+
+    it("should read the changes of the provided partition key", async () => {
+      const queryFeedSpy = (jest.spyOn(
+        ClientContext.prototype,
+        "queryFeed"
+      ) as jest.SpyInstance)
+        // the pages of documents, as extracted from the responses
+        .mockResolvedValueOnce({
+          code: 200,
+          headers: { etag: '"1"' },
+          result: [{ ...aDocument, ...someMetadata }]
+        })
+        .mockResolvedValueOnce({
+          code: 304,
+          headers: { etag: '"1"' },
+          result: undefined
+        });
+      const model = new MyPartitionedModel(sdkContainer);
+
+      const pages = await asyncIterableToArray(
+        model.getChangeFeedIterator({ kind: "BEGINNING" }, testPartition)
+      );
+
+      expect(queryFeedSpy).toHaveBeenCalledTimes(2);
+      expect(queryFeedSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ partitionKey: testPartition })
+      );
+      expect(pages).toHaveLength(1);
+      expect(pages[0].continuationToken.toUndefined()).toBe('"1"');
+      expect(pages[0].items).toEqual([
+        right({ ...aDocument, ...someMetadata })
+      ]);
+    });
+  });
+});
@@ -13,10 +13,15 @@ import {
 } from "@azure/cosmos";
 
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { Millisecond } from "@pagopa/ts-commons/lib/units";
+import { asyncIterableToArray, flattenAsyncIterable } from "../async";
+import { createInMemoryContainer } from "../cosmosdb_in_memory";
 import { BaseModel } from "../cosmosdb_model";
 import {
   CosmosdbModelVersioned,
+  diffVersions,
   generateVersionedModelId,
+  getSupersededVersions,
   RetrievedVersionedModel
 } from "../cosmosdb_model_versioned";
 
@@ -282,3 +287,332 @@ describe("findLastVersionByModelId", () => {
     }
   });
 });
+
+describe("deleteAllVersions", () => {
+  // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+  async function* pagesOf<T>(
+    pages: ReadonlyArray<ReadonlyArray<T>>
+  ): AsyncGenerator<FeedResponse<T>> {
+    for (const page of pages) {
+      yield new FeedResponse([...page], {}, false);
+    }
+  }
+
+  it("should delete every revision of a document", async () => {
+    const deleteMock = jest.fn().mockResolvedValue({});
+    containerMock.item.mockReturnValue({ delete: deleteMock });
+    containerMock.items.query.mockReturnValueOnce({
+      getAsyncIterator: () =>
+        pagesOf([
+          [{ id: documentId(aModelIdValue, 0) }],
+          [{ id: documentId(aModelIdValue, 1) }]
+        ])
+    });
+    const model = new MyPartitionedModel(container);
+
+    const result = await model
+      .deleteAllVersions([aModelIdValue, aModelPartitionValue])
+      .run();
+
+    expect(containerMock.items.query).toHaveBeenCalledWith(
+      expect.objectContaining({
+        parameters: [{ name: "@modelId", value: aModelIdValue }]
+      }),
+      { partitionKey: aModelPartitionValue }
+    );
+    expect(containerMock.item).toHaveBeenCalledTimes(2);
+    expect(containerMock.item).toHaveBeenCalledWith(
+      documentId(aModelIdValue, 0),
+      aModelPartitionValue
+    );
+    expect(containerMock.item).toHaveBeenCalledWith(
+      documentId(aModelIdValue, 1),
+      aModelPartitionValue
+    );
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toBe(2);
+    }
+  });
+
+  it("should use the model id as partition key if not provided", async () => {
+    containerMock.items.query.mockReturnValueOnce({
+      getAsyncIterator: () => pagesOf([])
+    });
+    const model = new MyModel(container);
+
+    const result = await model.deleteAllVersions([aModelIdValue]).run();
+
+    expect(containerMock.items.query).toHaveBeenCalledWith(expect.any(Object), {
+      partitionKey: aModelIdValue
+    });
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toBe(0);
+    }
+  });
+
+  it("should fail on delete error", async () => {
+    containerMock.item.mockReturnValue({
+      delete: jest.fn().mockRejectedValue(errorResponse)
+    });
+    containerMock.items.query.mockReturnValueOnce({
+      getAsyncIterator: () => pagesOf([[{ id: documentId(aModelIdValue, 0) }]])
+    });
+    const model = new MyModel(container);
+
+    const result = await model.deleteAllVersions([aModelIdValue]).run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+  });
+});
+
+describe("version history", () => {
+  // creates three revisions of a document, one per second
+  const getModelWithHistory = async (): Promise<MyPartitionedModel> => {
+    const model = new MyPartitionedModel(
+      createInMemoryContainer(`/${aModelPartitionField}`)
+    );
+    const nowSpy = jest.spyOn(Date, "now");
+    nowSpy.mockReturnValueOnce(1000000);
+    await model.create({ ...aMyDocument, test: "v0" }).run();
+    nowSpy.mockReturnValueOnce(2000000);
+    await model.upsert({ ...aMyDocument, test: "v1" }).run();
+    nowSpy.mockReturnValueOnce(3000000);
+    await model.upsert({ ...aMyDocument, test: "v2" }).run();
+    nowSpy.mockRestore();
+    return model;
+  };
+
+  it("should iterate over every revision ordered by version", async () => {
+    const model = await getModelWithHistory();
+    const revisions = await asyncIterableToArray(
+      flattenAsyncIterable(
+        model.findAllVersionsByModelId([aModelIdValue, aModelPartitionValue])
+      )
+    );
+    expect(revisions.map(_ => _.map(r => r.test).value)).toEqual([
+      "v0",
+      "v1",
+      "v2"
+    ]);
+  });
+
+  it("should find a specific revision", async () => {
+    const model = await getModelWithHistory();
+    const result = await model
+      .findVersion(
+        [aModelIdValue, aModelPartitionValue],
+        1 as NonNegativeInteger
+      )
+      .run();
+    expect(result.map(_ => _.map(r => r.test).toUndefined()).value).toBe("v1");
+
+    const missing = await model
+      .findVersion(
+        [aModelIdValue, aModelPartitionValue],
+        3 as NonNegativeInteger
+      )
+      .run();
+    expect(missing.map(_ => _.isNone()).value).toBe(true);
+  });
+
+  it("should find the revision which was the latest at a point in time", async () => {
+    const model = await getModelWithHistory();
+    const findTestAt = (timestamp: number) =>
+      model
+        .findVersionAt(
+          [aModelIdValue, aModelPartitionValue],
+          new Date(timestamp)
+        )
+        .map(_ => _.map(r => r.test).toUndefined())
+        .run();
+
+    expect((await findTestAt(999999)).value).toBeUndefined();
+    expect((await findTestAt(1000000)).value).toBe("v0");
+    expect((await findTestAt(2500000)).value).toBe("v1");
+    expect((await findTestAt(5000000)).value).toBe("v2");
+  });
+});
+
+describe("diffVersions", () => {
+  it("should list the added, changed and removed fields", () => {
+    const from = {
+      ...aRetrievedExistingDocument,
+      nested: { a: 1 },
+      removedField: "x",
+      unchanged: [1, 2]
+    };
+    const to = {
+      ...aRetrievedExistingDocument,
+      _etag: "another_etag",
+      addedField: "y",
+      nested: { a: 2 },
+      removedField: undefined,
+      unchanged: [1, 2],
+      version: 1 as NonNegativeInteger
+    };
+    expect(diffVersions<RetrievedVersionedModel>(from, to)).toEqual({
+      added: [{ field: "addedField", value: "y" }],
+      changed: [{ field: "nested", from: { a: 1 }, to: { a: 2 } }],
+      removed: [{ field: "removedField", value: "x" }]
+    });
+  });
+
+  it("should return no differences for equal revisions", () => {
+    expect(
+      diffVersions(aRetrievedExistingDocument, aRetrievedExistingDocument)
+    ).toEqual({ added: [], changed: [], removed: [] });
+  });
+});
+
+describe("getSupersededVersions", () => {
+  const now = new Date(10000 * 1000);
+  // versions 0..4, updated at 1000s intervals from 6000s to 10000s
+  const revisions = [0, 1, 2, 3, 4].map(version => ({
+    _ts: 6000 + version * 1000,
+    id: documentId(aModelIdValue, version),
+    version: version as NonNegativeInteger
+  }));
+  const supersededVersions = (
+    policy: Parameters<typeof getSupersededVersions>[1]
+  ): ReadonlyArray<number> =>
+    getSupersededVersions(revisions, policy, now).map(_ => _.version);
+
+  it("should keep every revision when no criteria is provided", () => {
+    expect(supersededVersions({})).toEqual([]);
+  });
+
+  it("should keep the last versions", () => {
+    expect(
+      supersededVersions({ keepLastVersions: 2 as NonNegativeInteger })
+    ).toEqual([2, 1, 0]);
+  });
+
+  it("should keep the newer versions", () => {
+    expect(
+      supersededVersions({ keepNewerThan: (2500 * 1000) as Millisecond })
+    ).toEqual([1, 0]);
+  });
+
+  it("should keep a version satisfying any of the criteria", () => {
+    expect(
+      supersededVersions({
+        keepLastVersions: 4 as NonNegativeInteger,
+        keepNewerThan: (2500 * 1000) as Millisecond
+      })
+    ).toEqual([0]);
+  });
+
+  it("should always keep the latest version", () => {
+    expect(
+      supersededVersions({
+        keepLastVersions: 0 as NonNegativeInteger,
+        keepNewerThan: 0 as Millisecond
+      })
+    ).toEqual([3, 2, 1, 0]);
+  });
+});
+
+describe("migrateToLatestSchema", () => {
+  it("should fail without rewriting the revisions", async () => {
+    const readAllMock = jest.fn();
+    const replaceMock = jest.fn();
+    const model = new MyModel(({
+      item: jest.fn(() => ({ replace: replaceMock })),
+      items: { readAll: readAllMock }
+    } as unknown) as Container);
+
+    const result = await model.migrateToLatestSchema().run();
+
+    expect(isLeft(result)).toBeTruthy();
+    expect(result.value).toEqual({
+      error: expect.any(Error),
+      kind: "COSMOS_ERROR_RESPONSE"
+    });
+    expect(readAllMock).not.toHaveBeenCalled();
+    expect(replaceMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("pruneVersions", () => {
+  const aRetentionPolicy = { keepLastVersions: 1 as NonNegativeInteger };
+
+  const getModelWithRevisions = async (): Promise<MyPartitionedModel> => {
+    const model = new MyPartitionedModel(
+      createInMemoryContainer(`/${aModelPartitionField}`)
+    );
+    await model.create(aMyDocument).run();
+    await model.upsert(aMyDocument).run();
+    await model.upsert(aMyDocument).run();
+    await model
+      .create({ ...aMyDocument, [aModelIdField]: "anotherModelId" })
+      .run();
+    return model;
+  };
+
+  const countRevisions = async (model: MyPartitionedModel): Promise<number> =>
+    (
+      await asyncIterableToArray(
+        flattenAsyncIterable(
+          model.findAllVersionsByModelId([aModelIdValue, aModelPartitionValue])
+        )
+      )
+    ).length;
+
+  it("should delete the superseded revisions of a partition", async () => {
+    const model = await getModelWithRevisions();
+    const result = await model
+      .pruneVersions(aModelPartitionValue, aRetentionPolicy)
+      .run();
+
+    expect(result.value).toEqual({
+      dryRun: false,
+      pruned: expect.arrayContaining([
+        documentId(aModelIdValue, 0),
+        documentId(aModelIdValue, 1)
+      ]),
+      retained: 2
+    });
+    expect(await countRevisions(model)).toBe(1);
+  });
+
+  it("should only report the superseded revisions on dry-run", async () => {
+    const model = await getModelWithRevisions();
+    const result = await model
+      .pruneVersions(aModelPartitionValue, aRetentionPolicy, true)
+      .run();
+
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value.dryRun).toBe(true);
+      expect(result.value.pruned).toHaveLength(2);
+    }
+    expect(await countRevisions(model)).toBe(3);
+  });
+
+  it("should fail on query error", async () => {
+    const model = new MyPartitionedModel(({
+      items: {
+        query: jest.fn(() => ({
+          getAsyncIterator: () => ({
+            [Symbol.asyncIterator]: () => ({
+              next: () => Promise.reject(new Error("query error"))
+            })
+          })
+        }))
+      }
+    } as unknown) as Container);
+    const result = await model
+      .pruneVersions(aModelPartitionValue, aRetentionPolicy)
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("COSMOS_ERROR_RESPONSE");
+    }
+  });
+});
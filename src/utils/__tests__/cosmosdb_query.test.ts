@@ -0,0 +1,129 @@
+import * as t from "io-ts";
+
+import { DateFromString } from "@pagopa/ts-commons/lib/dates";
+
+import { queryFor } from "../cosmosdb_query";
+
+const MyDocument = t.interface({
+  count: t.number,
+  createdAt: DateFromString,
+  id: t.string,
+  name: t.string
+});
+
+describe("queryFor", () => {
+  it("should select every document when no clause is provided", () => {
+    expect(queryFor(MyDocument).build()).toEqual({
+      parameters: [],
+      query: "SELECT * FROM m"
+    });
+  });
+
+  it("should render an equality condition as a parameter", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ eq }) => eq("name", "foo"))
+        .build()
+    ).toEqual({
+      parameters: [{ name: "@p0", value: "foo" }],
+      query: "SELECT * FROM m WHERE m.name = @p0"
+    });
+  });
+
+  it("should compose conditions with and/or", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ and, compare, eq, or }) =>
+          or(and(eq("name", "foo"), compare("count", ">", 1)), eq("id", "x"))
+        )
+        .build()
+    ).toEqual({
+      parameters: [
+        { name: "@p0", value: "foo" },
+        { name: "@p1", value: 1 },
+        { name: "@p2", value: "x" }
+      ],
+      query:
+        "SELECT * FROM m WHERE ((m.name = @p0 AND m.count > @p1) OR m.id = @p2)"
+    });
+  });
+
+  it("should put multiple where clauses in AND", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ eq }) => eq("name", "foo"))
+        .where(({ eq }) => eq("id", "x"))
+        .build().query
+    ).toEqual("SELECT * FROM m WHERE (m.name = @p0 AND m.id = @p1)");
+  });
+
+  it("should render an IN condition", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ isIn }) => isIn("id", ["a", "b"]))
+        .build()
+    ).toEqual({
+      parameters: [
+        { name: "@p0", value: "a" },
+        { name: "@p1", value: "b" }
+      ],
+      query: "SELECT * FROM m WHERE m.id IN (@p0, @p1)"
+    });
+  });
+
+  it("should render an IN condition with no values as false", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ isIn }) => isIn("id", []))
+        .build().query
+    ).toEqual("SELECT * FROM m WHERE false");
+  });
+
+  it("should render IS_DEFINED and NOT conditions", () => {
+    expect(
+      queryFor(MyDocument)
+        .where(({ eq, isDefined, not, or }) =>
+          or(not(isDefined("count")), eq("count", 0))
+        )
+        .build()
+    ).toEqual({
+      parameters: [{ name: "@p0", value: 0 }],
+      query:
+        "SELECT * FROM m WHERE (NOT (IS_DEFINED(m.count)) OR m.count = @p0)"
+    });
+  });
+
+  it("should provide dates as ISO strings", () => {
+    const aDate = new Date("2020-01-01T00:00:00.000Z");
+    expect(
+      queryFor(MyDocument)
+        .where(({ compare }) => compare("createdAt", ">=", aDate))
+        .build().parameters
+    ).toEqual([{ name: "@p0", value: "2020-01-01T00:00:00.000Z" }]);
+  });
+
+  it("should render top, projection and sort criteria", () => {
+    expect(
+      queryFor(MyDocument)
+        .select(["id", "name"])
+        .where(({ eq }) => eq("name", "foo"))
+        .orderBy("count", "DESC")
+        .orderBy("id")
+        .top(10)
+        .build()
+    ).toEqual({
+      parameters: [
+        { name: "@p0", value: "foo" },
+        { name: "@p1", value: 10 }
+      ],
+      query:
+        "SELECT TOP @p1 m.id, m.name FROM m WHERE m.name = @p0 ORDER BY m.count DESC, m.id ASC"
+    });
+  });
+
+  it("should not modify the builder it's derived from", () => {
+    const base = queryFor(MyDocument).where(({ eq }) => eq("name", "foo"));
+    base.top(1).orderBy("id");
+    expect(base.build().query).toEqual("SELECT * FROM m WHERE m.name = @p0");
+  });
+});
@@ -0,0 +1,146 @@
+import { randomBytes } from "crypto";
+
+import { isLeft } from "fp-ts/lib/Either";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import {
+  decryptPayload,
+  encryptPayload,
+  getInMemoryKeyProvider,
+  rewrapPayload
+} from "../encryption";
+
+const anOldKeyId = "key-1" as NonEmptyString;
+const aKeyId = "key-2" as NonEmptyString;
+const someKeys = new Map([
+  [anOldKeyId, randomBytes(32)],
+  [aKeyId, randomBytes(32)]
+]);
+
+const anOldKeyProvider = getInMemoryKeyProvider(someKeys, anOldKeyId);
+const aKeyProvider = getInMemoryKeyProvider(someKeys, aKeyId);
+
+const aPlaintext = JSON.stringify({ subject: "a secret àèìòù" });
+const aMessageId = "A_MESSAGE_ID";
+
+describe("encryptPayload", () => {
+  it("should encrypt a payload with the current key", async () => {
+    const result = await encryptPayload(
+      aKeyProvider,
+      aPlaintext,
+      aMessageId
+    ).run();
+
+    expect(result.value).toEqual({
+      algorithm: "AES-256-GCM",
+      authTag: expect.any(String),
+      ciphertext: expect.any(String),
+      iv: expect.any(String),
+      keyId: aKeyId,
+      wrappedKey: expect.any(String)
+    });
+    expect(JSON.stringify(result.value)).not.toContain("secret");
+  });
+
+  it("should decrypt an encrypted payload", async () => {
+    const result = await encryptPayload(aKeyProvider, aPlaintext, aMessageId)
+      .chain(_ => decryptPayload(aKeyProvider, _, aMessageId))
+      .run();
+
+    expect(result.value).toBe(aPlaintext);
+  });
+
+  it("should fail to decrypt a tampered payload", async () => {
+    const result = await encryptPayload(aKeyProvider, aPlaintext, aMessageId)
+      .chain(_ =>
+        decryptPayload(
+          aKeyProvider,
+          {
+            ..._,
+            ciphertext: Buffer.from("tampered").toString("base64")
+          },
+          aMessageId
+        )
+      )
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+
+  it("should fail to decrypt a payload with other associated data", async () => {
+    const result = await encryptPayload(aKeyProvider, aPlaintext, aMessageId)
+      .chain(_ => decryptPayload(aKeyProvider, _, "ANOTHER_MESSAGE_ID"))
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+
+  it("should fail to decrypt a payload with a truncated tag", async () => {
+    const result = await encryptPayload(aKeyProvider, aPlaintext, aMessageId)
+      .chain(_ =>
+        decryptPayload(
+          aKeyProvider,
+          {
+            ..._,
+            authTag: Buffer.from(_.authTag, "base64")
+              .slice(0, 4)
+              .toString("base64")
+          },
+          aMessageId
+        )
+      )
+      .run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+
+  it("should fail with an unknown key", async () => {
+    const result = await encryptPayload(
+      getInMemoryKeyProvider(someKeys, "key-3" as NonEmptyString),
+      aPlaintext,
+      aMessageId
+    ).run();
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+});
+
+describe("rewrapPayload", () => {
+  it("should wrap the data key with the current key", async () => {
+    const encrypted = (
+      await encryptPayload(anOldKeyProvider, aPlaintext, aMessageId).run()
+    ).getOrElseL(e => fail(e));
+
+    const result = await rewrapPayload(aKeyProvider, encrypted)
+      .chain(rewrapped => {
+        expect(rewrapped).toEqual({
+          ...encrypted,
+          keyId: aKeyId,
+          wrappedKey: expect.any(String)
+        });
+        // the old key is no more needed
+        return decryptPayload(
+          getInMemoryKeyProvider(
+            new Map([[aKeyId, someKeys.get(aKeyId)!]]),
+            aKeyId
+          ),
+          rewrapped,
+          aMessageId
+        );
+      })
+      .run();
+
+    expect(result.value).toBe(aPlaintext);
+  });
+
+  it("should leave a payload wrapped with the current key untouched", async () => {
+    const encrypted = (
+      await encryptPayload(aKeyProvider, aPlaintext, aMessageId).run()
+    ).getOrElseL(e => fail(e));
+
+    const result = await rewrapPayload(aKeyProvider, encrypted).run();
+
+    expect(result.value).toBe(encrypted);
+  });
+});
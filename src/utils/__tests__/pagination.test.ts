@@ -0,0 +1,66 @@
+import { URL } from "url";
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import {
+  ContinuationTokenFromCursor,
+  encodeCursor,
+  getNextPageUrl
+} from "../pagination";
+
+const aContinuationToken =
+  '[{"compositeToken":"+RID:~AAAAAAAAAAAAAAA==#RT:1#TRC:2#ISV:2#IEO:65551","range":{"min":"","max":"FF"}}]';
+
+describe("encodeCursor", () => {
+  it("should return an url-safe string", () => {
+    const cursor = encodeCursor(aContinuationToken);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+});
+
+describe("ContinuationTokenFromCursor", () => {
+  it("should decode a cursor into the continuation token", () => {
+    const result = ContinuationTokenFromCursor.decode(
+      encodeCursor(aContinuationToken)
+    );
+
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value).toBe(aContinuationToken);
+    }
+  });
+
+  it.each`
+    title                | cursor
+    ${"an empty string"} | ${""}
+    ${"a number"}        | ${1}
+    ${"a non base64"}    | ${"not a cursor!"}
+  `("should reject $title", ({ cursor }) => {
+    const result = ContinuationTokenFromCursor.decode(cursor);
+
+    expect(isLeft(result)).toBeTruthy();
+  });
+});
+
+describe("getNextPageUrl", () => {
+  it("should return the request url with the cursor of the next page", () => {
+    const nextPageUrl = new URL(
+      getNextPageUrl(
+        "https://example.com/messages?cursor=aCursor&other=1",
+        aContinuationToken,
+        10
+      )
+    );
+
+    expect(nextPageUrl.origin + nextPageUrl.pathname).toBe(
+      "https://example.com/messages"
+    );
+    expect(nextPageUrl.searchParams.get("other")).toBe("1");
+    expect(nextPageUrl.searchParams.get("page_size")).toBe("10");
+    expect(
+      ContinuationTokenFromCursor.decode(nextPageUrl.searchParams.get("cursor"))
+        .value
+    ).toBe(aContinuationToken);
+  });
+});
@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as t from "io-ts";
+
+import { isRight } from "fp-ts/lib/Either";
+import { Option } from "fp-ts/lib/Option";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { enqueue } from "../azure_storage";
+import { PermanentError, RuntimeError, TransientError } from "../errors";
+import {
+  DeadLetter,
+  getPoisonQueueName,
+  listDeadLetters,
+  requeueDeadLetters,
+  sendToPoisonQueue,
+  toDeadLetter
+} from "../poison_queue";
+
+const TestEvent = t.interface({ id: t.string });
+
+const aQueueName = "events" as NonEmptyString;
+const aFailureDate = new Date("2020-01-01T00:00:00.000Z");
+
+interface IStoredMessage {
+  readonly messageId: string;
+  readonly messageText: string;
+}
+
+// a queue service storing the messages of every queue in memory
+const getQueueServiceMock = (
+  queues: Map<string, ReadonlyArray<IStoredMessage>>
+) => {
+  const getQueue = (name: string): ReadonlyArray<IStoredMessage> =>
+    queues.get(name) || [];
+  return {
+    createMessage: jest.fn((queueName, messageText, _, f) => {
+      const messageId = `${queueName}-${getQueue(queueName).length}`;
+      queues.set(queueName, [
+        ...getQueue(queueName),
+        { messageId, messageText }
+      ]);
+      f(undefined, { messageId });
+    }),
+    deleteMessage: jest.fn((queueName, messageId, _, f) => {
+      queues.set(
+        queueName,
+        getQueue(queueName).filter(m => m.messageId !== messageId)
+      );
+      f(undefined);
+    }),
+    getMessages: jest.fn((queueName, _, f) =>
+      f(
+        undefined,
+        getQueue(queueName).map(m => ({
+          ...m,
+          dequeueCount: 1,
+          popReceipt: "a-pop-receipt"
+        }))
+      )
+    ),
+    peekMessages: jest.fn((queueName, _, f) =>
+      f(
+        undefined,
+        getQueue(queueName).map(m => ({ ...m, dequeueCount: 0 }))
+      )
+    ),
+    updateMessage: jest.fn((_, __, ___, ____, f) => f(undefined))
+  };
+};
+
+const aDeadLetter = (
+  id: string,
+  error: RuntimeError = TransientError("a failure")
+) =>
+  toDeadLetter(
+    aQueueName,
+    { dequeueCount: 5, payload: { id } },
+    error,
+    aFailureDate
+  );
+
+describe("toDeadLetter", () => {
+  it("should wrap a payload with its error and attempts", () => {
+    expect(aDeadLetter("a-id")).toEqual({
+      attempts: 5,
+      errorKind: "TransientError",
+      errorMessage: "a failure",
+      failedAt: aFailureDate,
+      insertedAt: undefined,
+      payload: { id: "a-id" },
+      queueName: aQueueName
+    });
+  });
+});
+
+describe("sendToPoisonQueue", () => {
+  it("should send a dead letter to the poison queue and list it", async () => {
+    const queues = new Map();
+    const queueService = getQueueServiceMock(queues) as any;
+
+    await sendToPoisonQueue(queueService, aDeadLetter("a-id")).run();
+    expect(queues.get(getPoisonQueueName(aQueueName))).toHaveLength(1);
+
+    const errorOrDeadLetters = await listDeadLetters(
+      queueService,
+      aQueueName
+    ).run();
+
+    expect(isRight(errorOrDeadLetters)).toBe(true);
+    if (isRight(errorOrDeadLetters)) {
+      expect(errorOrDeadLetters.value).toHaveLength(1);
+      expect(errorOrDeadLetters.value[0].payload.value).toEqual(
+        aDeadLetter("a-id")
+      );
+    }
+  });
+});
+
+describe("requeueDeadLetters", () => {
+  it("should send back the selected dead letters only", async () => {
+    const queues = new Map();
+    const queueService = getQueueServiceMock(queues) as any;
+    await sendToPoisonQueue(queueService, aDeadLetter("a-id")).run();
+    await sendToPoisonQueue(
+      queueService,
+      aDeadLetter("another-id", PermanentError("a failure"))
+    ).run();
+    // a poison message not wrapped in a DeadLetter
+    await enqueue(TestEvent, queueService, getPoisonQueueName(aQueueName), {
+      id: "a-raw-id"
+    });
+
+    const errorOrRequeued = await requeueDeadLetters(
+      TestEvent,
+      queueService,
+      aQueueName,
+      (deadLetter: Option<DeadLetter>) =>
+        deadLetter.exists(_ => _.errorKind === "TransientError")
+    ).run();
+
+    expect(errorOrRequeued.value).toBe(1);
+    expect(queues.get(aQueueName)).toHaveLength(1);
+    expect(
+      JSON.parse(
+        Buffer.from(queues.get(aQueueName)[0].messageText, "base64").toString()
+      )
+    ).toEqual({ id: "a-id" });
+    expect(queues.get(getPoisonQueueName(aQueueName))).toHaveLength(2);
+    // the skipped messages are made visible again at once
+    expect(queueService.updateMessage).toHaveBeenCalledTimes(2);
+    expect(queueService.updateMessage).toHaveBeenCalledWith(
+      getPoisonQueueName(aQueueName),
+      expect.any(String),
+      "a-pop-receipt",
+      0,
+      expect.any(Function)
+    );
+  });
+
+  it("should send back the raw payloads moved by the runtime", async () => {
+    const queues = new Map();
+    const queueService = getQueueServiceMock(queues) as any;
+    await sendToPoisonQueue(queueService, aDeadLetter("a-id")).run();
+    await enqueue(TestEvent, queueService, getPoisonQueueName(aQueueName), {
+      id: "a-raw-id"
+    });
+
+    const predicate = jest.fn((deadLetter: Option<DeadLetter>) =>
+      deadLetter.isNone()
+    );
+    const errorOrRequeued = await requeueDeadLetters(
+      TestEvent,
+      queueService,
+      aQueueName,
+      predicate
+    ).run();
+
+    expect(errorOrRequeued.value).toBe(1);
+    expect(predicate).toHaveBeenCalledTimes(2);
+    expect(
+      JSON.parse(
+        Buffer.from(queues.get(aQueueName)[0].messageText, "base64").toString()
+      )
+    ).toEqual({ id: "a-raw-id" });
+    expect(queues.get(getPoisonQueueName(aQueueName))).toHaveLength(1);
+  });
+
+  it("should leave the dead letters with an invalid payload", async () => {
+    const queues = new Map();
+    const queueService = getQueueServiceMock(queues) as any;
+    await sendToPoisonQueue(
+      queueService,
+      toDeadLetter(
+        aQueueName,
+        { dequeueCount: 1, payload: { id: 1 } },
+        TransientError("a failure")
+      )
+    ).run();
+
+    const predicate = jest.fn(() => true);
+    const errorOrRequeued = await requeueDeadLetters(
+      TestEvent,
+      queueService,
+      aQueueName,
+      predicate
+    ).run();
+
+    expect(errorOrRequeued.value).toBe(0);
+    expect(predicate).not.toHaveBeenCalled();
+    expect(queues.get(getPoisonQueueName(aQueueName))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,301 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { EventEmitter } from "events";
+
+import * as express from "express";
+
+import { ErrorResponse } from "@azure/cosmos";
+
+import * as t from "io-ts";
+
+import {
+  CosmosConflictResponse,
+  CosmosDecodingError,
+  CosmosEmptyResponse,
+  CosmosErrorResponse
+} from "../cosmosdb_model";
+import { none, some } from "fp-ts/lib/Option";
+
+import { encodeCursor } from "../pagination";
+import {
+  ResponseErrorFromCosmosErrors,
+  ResponseJsonPageIterator,
+  ResponseJsonStreamIterator
+} from "../response";
+
+/**
+ * A minimal express.Response which collects the written chunks
+ */
+const getMockResponse = (): express.Response & {
+  readonly body: () => string;
+} => {
+  const chunks = Array<string>();
+  const res: EventEmitter = Object.assign(new EventEmitter(), {
+    body: (): string => chunks.join(""),
+    end: jest.fn((chunk: string) => {
+      // eslint-disable-next-line functional/immutable-data
+      chunks.push(chunk);
+    }),
+    status: jest.fn(() => res),
+    type: jest.fn(() => res),
+    write: jest.fn((chunk: string) => {
+      // eslint-disable-next-line functional/immutable-data
+      chunks.push(chunk);
+      return true;
+    })
+  });
+  return (res as unknown) as express.Response & {
+    readonly body: () => string;
+  };
+};
+
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+async function* pagesOf<T>(
+  pages: ReadonlyArray<ReadonlyArray<T>>,
+  error?: Error
+): AsyncGenerator<ReadonlyArray<T>> {
+  for (const page of pages) {
+    yield page;
+  }
+  if (error) {
+    throw error;
+  }
+}
+
+describe("ResponseJsonStreamIterator", () => {
+  it("should stream every page as a json object", async () => {
+    const res = getMockResponse();
+
+    await ResponseJsonStreamIterator(
+      pagesOf([[{ a: 1, kind: "aKind" }, { a: 2 }], [], [{ a: 3 }]])
+    ).apply(res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.write).toHaveBeenCalledTimes(4);
+    expect(JSON.parse(res.body())).toEqual({
+      items: [{ a: 1 }, { a: 2 }, { a: 3 }],
+      page_size: 3
+    });
+  });
+
+  it("should stream an empty collection", async () => {
+    const res = getMockResponse();
+
+    await ResponseJsonStreamIterator(pagesOf([])).apply(res);
+
+    expect(JSON.parse(res.body())).toEqual({ items: [], page_size: 0 });
+  });
+
+  it("should report an error occurred while streaming", async () => {
+    const res = getMockResponse();
+    const errorResponse: ErrorResponse = new Error("aMessage");
+    // eslint-disable-next-line functional/immutable-data
+    errorResponse.code = 500;
+
+    await ResponseJsonStreamIterator(
+      pagesOf([[{ a: 1 }]], errorResponse)
+    ).apply(res);
+
+    expect(JSON.parse(res.body())).toEqual({
+      error: {
+        detail: expect.stringContaining("500/aMessage"),
+        kind: "COSMOS_ERROR_RESPONSE"
+      },
+      items: [{ a: 1 }],
+      page_size: 1
+    });
+  });
+
+  it("should not leak listeners when writing with backpressure", async () => {
+    const res = getMockResponse();
+    // every write fills the buffer, which is drained right after
+    (res.write as jest.Mock).mockImplementation(() => {
+      setImmediate(() => res.emit("drain"));
+      return false;
+    });
+
+    await ResponseJsonStreamIterator(
+      pagesOf(Array.from({ length: 30 }, (_, i) => [{ a: i }]))
+    ).apply(res);
+
+    expect(res.write).toHaveBeenCalledTimes(31);
+    expect(res.listenerCount("close")).toBe(0);
+    expect(res.listenerCount("drain")).toBe(0);
+  });
+
+  it("should stop iterating when the client disconnects", async () => {
+    const res = getMockResponse();
+    const next = jest.fn(
+      async (): Promise<IteratorResult<ReadonlyArray<unknown>>> => {
+        // the client disconnects while the page is being retrieved
+        res.emit("close");
+        return { done: false, value: [{ a: 1 }] };
+      }
+    );
+    const iteratorReturn = jest.fn(
+      async (): Promise<IteratorResult<ReadonlyArray<unknown>>> => ({
+        done: true,
+        value: undefined
+      })
+    );
+
+    await ResponseJsonStreamIterator({
+      next,
+      return: iteratorReturn
+    }).apply(res);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(iteratorReturn).toHaveBeenCalled();
+    expect(res.end).not.toHaveBeenCalled();
+  });
+
+  it("should not write when the client disconnected before applying", async () => {
+    const res = Object.assign(getMockResponse(), { destroyed: true });
+    // the close event has already been emitted: writes are never flushed
+    (res.write as jest.Mock).mockImplementation(() => false);
+    const next = jest.fn();
+    const iteratorReturn = jest.fn(
+      async (): Promise<IteratorResult<ReadonlyArray<unknown>>> => ({
+        done: true,
+        value: undefined
+      })
+    );
+
+    await ResponseJsonStreamIterator({
+      next,
+      return: iteratorReturn
+    }).apply(res);
+
+    expect(res.write).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+    expect(iteratorReturn).toHaveBeenCalled();
+    expect(res.end).not.toHaveBeenCalled();
+    expect(res.listenerCount("close")).toBe(0);
+  });
+});
+
+describe("ResponseJsonPageIterator", () => {
+  const getMockPageResponse = () => {
+    const res: any = {
+      json: jest.fn(() => res),
+      req: {
+        get: jest.fn(() => "example.com"),
+        originalUrl: "/messages?page_size=2",
+        protocol: "https"
+      },
+      status: jest.fn(() => res)
+    };
+    return res;
+  };
+
+  it("should return the last page without a next url", async () => {
+    const res = getMockPageResponse();
+    const iterator = {
+      next: async () => ({
+        done: false,
+        value: { continuationToken: none, items: [{ a: 1, kind: "aKind" }] }
+      })
+    };
+
+    await ResponseJsonPageIterator(iterator, 2).apply(res as any);
+
+    expect(res.json).toHaveBeenCalledWith({
+      items: [{ a: 1, kind: undefined }],
+      next: undefined,
+      page_size: 2
+    });
+  });
+
+  it("should return the url of the next page as next", async () => {
+    const res = getMockPageResponse();
+    const iterator = {
+      next: async () => ({
+        done: false,
+        value: { continuationToken: some("aToken"), items: [] }
+      })
+    };
+
+    await ResponseJsonPageIterator(iterator, 2).apply(res as any);
+
+    expect(res.json).toHaveBeenCalledWith({
+      items: [],
+      next: `https://example.com/messages?page_size=2&cursor=${encodeCursor(
+        "aToken"
+      )}`,
+      page_size: 2
+    });
+  });
+
+  it("should report the requested page size on an empty page", async () => {
+    const res = getMockPageResponse();
+    const iterator = {
+      next: async () => ({ done: true as const, value: undefined })
+    };
+
+    await ResponseJsonPageIterator(iterator, 2).apply(res as any);
+
+    expect(res.json).toHaveBeenCalledWith({
+      items: [],
+      next: undefined,
+      page_size: 2
+    });
+  });
+});
+
+describe("ResponseErrorFromCosmosErrors", () => {
+  const anErrorResponse = (code: number, retryAfterInMs?: number) =>
+    CosmosErrorResponse(
+      Object.assign(new Error("an error"), { code, retryAfterInMs })
+    );
+  const toResponse = ResponseErrorFromCosmosErrors("a detail");
+
+  it.each`
+    code   | kind
+    ${404} | ${"IResponseErrorNotFound"}
+    ${409} | ${"IResponseErrorConflict"}
+    ${412} | ${"IResponseErrorPreconditionFailed"}
+    ${429} | ${"IResponseErrorTooManyRequests"}
+    ${500} | ${"IResponseErrorQuery"}
+  `(
+    "should map an error response with code $code to $kind",
+    ({ code, kind }) => {
+      expect(toResponse(anErrorResponse(code)).kind).toBe(kind);
+    }
+  );
+
+  it("should map a conflict on a conditional operation to a 412", () => {
+    const response = toResponse(
+      CosmosConflictResponse(Object.assign(new Error(), { code: 412 }))
+    );
+    expect(response.kind).toBe("IResponseErrorPreconditionFailed");
+  });
+
+  it("should set Retry-After on a 429 when the delay is known", () => {
+    const res = ({
+      json: jest.fn(),
+      set: jest.fn(() => res),
+      status: jest.fn(() => res)
+    } as unknown) as express.Response;
+    toResponse(anErrorResponse(429, 1500)).apply(res);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.set).toHaveBeenCalledWith("Retry-After", "2");
+  });
+
+  it("should map a decoding error to a 500 without the decoded values", () => {
+    const response = toResponse(
+      CosmosDecodingError(
+        t.interface({ fiscalCode: t.number }).decode({
+          fiscalCode: "AAABBB01C02D345D"
+        }).value as t.Errors
+      )
+    );
+    expect(response.kind).toBe("IResponseErrorInternal");
+    expect(response.detail).toContain("fiscalCode");
+    expect(response.detail).not.toContain("AAABBB01C02D345D");
+  });
+
+  it("should map an empty response to a 500", () => {
+    expect(toResponse(CosmosEmptyResponse).kind).toBe("IResponseErrorQuery");
+  });
+});
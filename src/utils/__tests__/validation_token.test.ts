@@ -0,0 +1,271 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as azureStorage from "azure-storage";
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import { EmailAddress } from "../../../generated/definitions/EmailAddress";
+import { FiscalCode } from "../../../generated/definitions/FiscalCode";
+import {
+  consumeValidationToken,
+  createValidationToken,
+  generateValidationToken,
+  purgeExpiredValidationTokens,
+  ValidationTokenExpired,
+  ValidationTokenInvalid,
+  verifyValidationToken
+} from "../validation_token";
+
+const aTableName = "ValidationTokens";
+const anEmail = "email@example.com" as EmailAddress;
+const aFiscalCode = "FRLFRC74E04B157I" as FiscalCode;
+
+type Row = Record<string, unknown>;
+
+// matches a row against a simple "<property> <eq|le> [datetime]'<value>'"
+// clause, comparing the dates with the Edm.DateTime properties only
+const matchesClause = (row: Row, clause: string): boolean => {
+  const [
+    ,
+    property,
+    operator,
+    datetime,
+    value
+  ] = /^(\w+) (eq|le) (datetime)?'(.*)'$/.exec(clause)!;
+  const rowValue = row[property];
+  if (datetime !== undefined) {
+    return (
+      rowValue instanceof Date &&
+      (operator === "eq"
+        ? rowValue.getTime() === new Date(value).getTime()
+        : rowValue.getTime() <= new Date(value).getTime())
+    );
+  }
+  return (
+    typeof rowValue === "string" &&
+    (operator === "eq" ? rowValue === value : rowValue <= value)
+  );
+};
+
+// a table service storing the entities in memory,
+// supporting filters made of simple clauses joined by "or"
+const getTableServiceMock = (rows: Map<string, Row>) => {
+  const keyOf = (row: Row): string => `${row.PartitionKey}/${row.RowKey}`;
+  return {
+    deleteEntity: jest.fn((_, entity, f) =>
+      rows.delete(keyOf(entity))
+        ? f(undefined)
+        : f({ code: "ResourceNotFound" })
+    ),
+    insertOrReplaceEntity: jest.fn((_, entity, f) => {
+      rows.set(keyOf(entity), entity);
+      f(undefined, {});
+    }),
+    queryEntities: jest.fn(
+      (_, tableQuery: azureStorage.TableQuery, __, options, f) => {
+        const clauses = ((tableQuery.toQueryObject() as any)
+          .$filter as string).split(" or ");
+        f(undefined, {
+          entries: [...rows.values()]
+            .filter(row => clauses.some(clause => matchesClause(row, clause)))
+            .map(row =>
+              options.entityResolver(
+                Object.keys(row).reduce(
+                  (resolved, key) => ({ ...resolved, [key]: { _: row[key] } }),
+                  {}
+                )
+              )
+            )
+        });
+      }
+    )
+  };
+};
+
+describe("generateValidationToken", () => {
+  it("should store the hashed validator only", () => {
+    const now = new Date("2020-01-01T00:00:00.000Z");
+    const { entity, token } = generateValidationToken(
+      anEmail,
+      aFiscalCode,
+      60,
+      now
+    );
+    const [tokenId, validator] = token.split(":");
+
+    expect(entity).toEqual({
+      Email: anEmail,
+      FiscalCode: aFiscalCode,
+      InvalidAfter: new Date("2020-01-01T00:01:00.000Z"),
+      PartitionKey: tokenId,
+      RowKey: expect.stringMatching(/^[0-9a-f]{64}$/)
+    });
+    expect(validator).toHaveLength(64);
+    expect(entity.RowKey).not.toEqual(validator);
+  });
+});
+
+describe("verifyValidationToken", () => {
+  it("should verify a stored token", async () => {
+    const tableService = getTableServiceMock(new Map()) as any;
+    const errorOrToken = await createValidationToken(
+      tableService,
+      aTableName,
+      anEmail,
+      aFiscalCode,
+      60
+    ).run();
+    expect(isRight(errorOrToken)).toBe(true);
+    if (isRight(errorOrToken)) {
+      const errorOrEntity = await verifyValidationToken(
+        tableService,
+        aTableName,
+        errorOrToken.value.token
+      ).run();
+
+      expect(errorOrEntity.value).toEqual(errorOrToken.value.entity);
+    }
+  });
+
+  it.each`
+    description            | getToken
+    ${"a wrong validator"} | ${(token: string) => `${token.split(":")[0]}:${"0".repeat(64)}`}
+    ${"an unknown id"}     | ${(token: string) => `unknown:${token.split(":")[1]}`}
+    ${"a malformed token"} | ${(token: string) => token.replace(":", "")}
+  `("should refuse a token with $description", async ({ getToken }) => {
+    const tableService = getTableServiceMock(new Map()) as any;
+    const { token } = (
+      await createValidationToken(
+        tableService,
+        aTableName,
+        anEmail,
+        aFiscalCode,
+        60
+      ).run()
+    ).value as any;
+
+    const errorOrEntity = await verifyValidationToken(
+      tableService,
+      aTableName,
+      getToken(token)
+    ).run();
+
+    expect(errorOrEntity.value).toEqual(ValidationTokenInvalid);
+  });
+
+  it("should refuse an expired token", async () => {
+    const tableService = getTableServiceMock(new Map()) as any;
+    const { token } = (
+      await createValidationToken(
+        tableService,
+        aTableName,
+        anEmail,
+        aFiscalCode,
+        60
+      ).run()
+    ).value as any;
+
+    const errorOrEntity = await verifyValidationToken(
+      tableService,
+      aTableName,
+      token,
+      new Date(Date.now() + 61 * 1000)
+    ).run();
+
+    expect(errorOrEntity.value).toEqual(ValidationTokenExpired);
+  });
+});
+
+describe("consumeValidationToken", () => {
+  it("should consume a token once", async () => {
+    const rows = new Map();
+    const tableService = getTableServiceMock(rows) as any;
+    const { token } = (
+      await createValidationToken(
+        tableService,
+        aTableName,
+        anEmail,
+        aFiscalCode,
+        60
+      ).run()
+    ).value as any;
+
+    const first = await consumeValidationToken(
+      tableService,
+      aTableName,
+      token
+    ).run();
+    const second = await consumeValidationToken(
+      tableService,
+      aTableName,
+      token
+    ).run();
+
+    expect(isRight(first)).toBe(true);
+    expect(second.value).toEqual(ValidationTokenInvalid);
+    expect(rows.size).toBe(0);
+  });
+});
+
+describe("purgeExpiredValidationTokens", () => {
+  it("should delete the expired tokens only", async () => {
+    const rows = new Map();
+    const tableService = getTableServiceMock(rows) as any;
+    await createValidationToken(
+      tableService,
+      aTableName,
+      anEmail,
+      aFiscalCode,
+      60
+    ).run();
+    await createValidationToken(
+      tableService,
+      aTableName,
+      anEmail,
+      aFiscalCode,
+      3600
+    ).run();
+
+    const errorOrPurged = await purgeExpiredValidationTokens(
+      tableService,
+      aTableName,
+      new Date(Date.now() + 120 * 1000)
+    ).run();
+
+    expect(errorOrPurged.value).toBe(1);
+    expect(rows.size).toBe(1);
+  });
+
+  it("should delete the expired tokens stored with an Edm.DateTime", async () => {
+    const { entity } = generateValidationToken(anEmail, aFiscalCode, 60);
+    const rows = new Map<string, Row>([
+      [`${entity.PartitionKey}/${entity.RowKey}`, entity]
+    ]);
+    const tableService = getTableServiceMock(rows) as any;
+
+    const errorOrPurged = await purgeExpiredValidationTokens(
+      tableService,
+      aTableName,
+      new Date(Date.now() + 120 * 1000)
+    ).run();
+
+    expect(errorOrPurged.value).toBe(1);
+    expect(rows.size).toBe(0);
+  });
+
+  it("should fail when the table cannot be queried", async () => {
+    const tableService = {
+      queryEntities: jest.fn((_, __, ___, ____, f) => f(new Error("an error")))
+    };
+
+    const errorOrPurged = await purgeExpiredValidationTokens(
+      tableService as any,
+      aTableName
+    ).run();
+
+    expect(isLeft(errorOrPurged)).toBe(true);
+    expect(errorOrPurged.value).toMatchObject({
+      kind: "VALIDATION_TOKEN_STORAGE_ERROR"
+    });
+  });
+});
@@ -1,3 +1,7 @@
+import { Either } from "fp-ts/lib/Either";
+import { Task } from "fp-ts/lib/Task";
+import { TaskEither } from "fp-ts/lib/TaskEither";
+
 /**
  * Maps over an AsyncIterator
  */
@@ -143,3 +147,11 @@ export const flattenAsyncIterable = <T>(
       flattenAsyncIterator(iter)
   };
 };
+
+/**
+ * Lifts a function returning a Promise of an Either, which never rejects,
+ * into a TaskEither
+ */
+export const fromPromiseEither = <L, A>(
+  f: () => Promise<Either<L, A>>
+): TaskEither<L, A> => new TaskEither(new Task(f));
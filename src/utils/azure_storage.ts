@@ -1,10 +1,13 @@
 /**
  * Utility functions to interact with an Azure Storage.
  */
+import { Writable } from "stream";
+import { createGunzip, gzipSync } from "zlib";
 import * as azureStorage from "azure-storage";
+
 import * as t from "io-ts";
 
-import { Either, left, right } from "fp-ts/lib/Either";
+import { Either, isLeft, left, right } from "fp-ts/lib/Either";
 import { fromNullable, isNone, none, Option, some } from "fp-ts/lib/Option";
 
 import { readableReport } from "@pagopa/ts-commons/lib/reporters";
@@ -183,6 +186,49 @@ export const getBlobAsText = (
     );
   });
 
+/**
+ * Get a blob content as binary data.
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param blobName        blob file name
+ */
+export const getBlobAsBuffer = (
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  blobName: string,
+  options: azureStorage.BlobService.GetBlobRequestOptions = {}
+): Promise<Either<Error, Option<Buffer>>> =>
+  new Promise(resolve => {
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const chunks: Buffer[] = [];
+    const writable = new Writable({
+      write: (chunk, _, callback): void => {
+        // eslint-disable-next-line functional/immutable-data
+        chunks.push(Buffer.from(chunk));
+        callback();
+      }
+    });
+    blobService.getBlobToStream(
+      containerName,
+      blobName,
+      writable,
+      options,
+      (err, __, ___) => {
+        if (err) {
+          const errorAsStorageError = err as StorageError;
+          if (errorAsStorageError.code === BlobNotFoundCode) {
+            return resolve(right<Error, Option<Buffer>>(none));
+          }
+          return resolve(left<Error, Option<Buffer>>(err));
+        }
+        return resolve(
+          right<Error, Option<Buffer>>(some(Buffer.concat(chunks)))
+        );
+      }
+    );
+  });
+
 /**
  * Get a blob content as a typed (io-ts) object.
  *
@@ -221,6 +267,200 @@ export const getBlobAsObject = async <A, O, I>(
   });
 };
 
+// Code of the error returned when a blob exceeds the allowed size
+export const BlobTooLargeCode = "BlobTooLarge";
+
+export type BlobTooLargeError = StorageError & {
+  readonly code: typeof BlobTooLargeCode;
+  readonly maxSize: number;
+};
+
+export const BlobTooLargeError = (
+  blobName: string,
+  maxSize: number
+): BlobTooLargeError =>
+  Object.assign(
+    new Error(`Blob ${blobName} exceeds the maximum size of ${maxSize} bytes`),
+    { code: BlobTooLargeCode, maxSize } as const
+  );
+
+export const isBlobTooLargeError = (error: Error): error is BlobTooLargeError =>
+  (error as StorageError).code === BlobTooLargeCode;
+
+const GZIP_CONTENT_ENCODING = "gzip";
+
+/**
+ * How an object is stored in a blob
+ */
+export interface IBlobContentOptions {
+  // whether to gzip the content, setting the blob Content-Encoding
+  readonly compress?: boolean;
+  // the maximum size in bytes of the (uncompressed) content
+  readonly maxSize?: number;
+}
+
+/**
+ * Decompress a gzipped buffer, failing as soon as
+ * the decompressed content exceeds maxSize
+ */
+const gunzipBounded = (
+  compressed: Buffer,
+  maxSize: number,
+  onTooLarge: () => Error
+): Promise<Either<Error, Buffer>> =>
+  new Promise(resolve => {
+    // eslint-disable-next-line functional/prefer-readonly-type
+    const chunks: Buffer[] = [];
+    const gunzip = createGunzip();
+    gunzip.on("data", (chunk: Buffer) => {
+      // eslint-disable-next-line functional/immutable-data
+      chunks.push(chunk);
+      if (chunks.reduce((size, _) => size + _.length, 0) > maxSize) {
+        gunzip.destroy();
+        resolve(left(onTooLarge()));
+      }
+    });
+    gunzip.on("end", () => resolve(right(Buffer.concat(chunks))));
+    gunzip.on("error", err => resolve(left(err)));
+    gunzip.end(compressed);
+  });
+
+/**
+ * Create a new blob (media) from a typed object,
+ * optionally compressed and bounded in size.
+ * Assumes that the container <containerName> already exists.
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param blobName        blob storage container name
+ * @param content         object to be serialized and saved
+ * @param contentOptions  whether to compress the content and its max size
+ */
+export const upsertBoundedBlobFromObject = async <T>(
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  blobName: string,
+  content: T,
+  contentOptions: IBlobContentOptions
+): Promise<Either<Error, Option<azureStorage.BlobService.BlobResult>>> => {
+  const serialized = Buffer.from(JSON.stringify(content), "utf8");
+  if (
+    contentOptions.maxSize !== undefined &&
+    serialized.length > contentOptions.maxSize
+  ) {
+    return left(BlobTooLargeError(blobName, contentOptions.maxSize));
+  }
+  return contentOptions.compress
+    ? upsertBlobFromText(
+        blobService,
+        containerName,
+        blobName,
+        gzipSync(serialized),
+        {
+          contentSettings: {
+            contentEncoding: GZIP_CONTENT_ENCODING,
+            contentType: "application/json"
+          }
+        }
+      )
+    : upsertBlobFromText(blobService, containerName, blobName, serialized, {
+        contentSettings: { contentType: "application/json" }
+      });
+};
+
+/**
+ * Get a blob content as binary data, decompressing it if its
+ * Content-Encoding is gzip.
+ *
+ * Blobs larger than maxSize are not downloaded and a BlobTooLargeError
+ * is returned instead, as for compressed blobs expanding beyond maxSize.
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param blobName        blob file name
+ * @param maxSize         the maximum size in bytes of the content
+ */
+export const getBoundedBlobAsBuffer = (
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  blobName: string,
+  maxSize: number = Number.MAX_SAFE_INTEGER
+): Promise<Either<Error, Option<Buffer>>> =>
+  new Promise<Either<Error, Option<azureStorage.BlobService.BlobResult>>>(
+    resolve =>
+      blobService.getBlobProperties(containerName, blobName, (err, result) =>
+        err
+          ? resolve(
+              (err as StorageError).code === BlobNotFoundCode ||
+                // HEAD responses have no body, hence no error code
+                (err as { readonly statusCode?: number }).statusCode === 404
+                ? right(none)
+                : left(err)
+            )
+          : resolve(right(some(result)))
+      )
+  ).then(async errorOrMaybeProperties => {
+    if (
+      isLeft(errorOrMaybeProperties) ||
+      isNone(errorOrMaybeProperties.value)
+    ) {
+      return errorOrMaybeProperties.map(() => none);
+    }
+    const properties = errorOrMaybeProperties.value.value;
+    if (Number(properties.contentLength) > maxSize) {
+      return left(BlobTooLargeError(blobName, maxSize));
+    }
+    const isCompressed =
+      properties.contentSettings !== undefined &&
+      properties.contentSettings.contentEncoding === GZIP_CONTENT_ENCODING;
+    const errorOrMaybeContent = await getBlobAsBuffer(
+      blobService,
+      containerName,
+      blobName,
+      // fail if the blob has been changed since its properties were read
+      { accessConditions: { EtagMatch: properties.etag } }
+    );
+    if (isLeft(errorOrMaybeContent) || isNone(errorOrMaybeContent.value)) {
+      return errorOrMaybeContent.map(() => none);
+    }
+    const content = errorOrMaybeContent.value.value;
+    return (isCompressed
+      ? await gunzipBounded(content, maxSize, () =>
+          BlobTooLargeError(blobName, maxSize)
+        )
+      : right<Error, Buffer>(content)
+    ).map(some);
+  });
+
+/**
+ * Get a blob content as text (string), decompressing it if its
+ * Content-Encoding is gzip.
+ *
+ * Blobs larger than maxSize are not downloaded and a BlobTooLargeError
+ * is returned instead, as for compressed blobs expanding beyond maxSize.
+ *
+ * @param blobService     the Azure blob service
+ * @param containerName   the name of the Azure blob storage container
+ * @param blobName        blob file name
+ * @param maxSize         the maximum size in bytes of the content
+ */
+export const getBoundedBlobAsText = (
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  blobName: string,
+  maxSize?: number
+): Promise<Either<Error, Option<string>>> =>
+  getBoundedBlobAsBuffer(
+    blobService,
+    containerName,
+    blobName,
+    maxSize
+  ).then(errorOrMaybeContent =>
+    errorOrMaybeContent.map(maybeContent =>
+      maybeContent.map(_ => _.toString("utf8"))
+    )
+  );
+
 // TABLE STORAGE FUNCTIONS AND TYPES
 
 // Basic type for a table entity
@@ -331,3 +571,368 @@ export const retrieveTableEntity = async (
       }
     );
   });
+
+/**
+ * Encode an entity with its io-ts type, keeping its dates as they are.
+ *
+ * Every Date of a stored entity is an Edm.DateTime, like the ones stored
+ * by insertTableEntity, so that it can be compared by TableQuery.dateFilter;
+ * the codecs of the entities must then decode dates from Date values too
+ * (ie. UTCISODateFromString).
+ */
+const encodeTableEntity = <A extends ITableEntity, O>(
+  type: t.Type<A, O, unknown>,
+  entity: A
+): Record<string, unknown> => {
+  const encoded = (type.encode(entity) as unknown) as Record<string, unknown>;
+  const values = (entity as unknown) as Record<string, unknown>;
+  return Object.keys(encoded).reduce<Record<string, unknown>>(
+    (accumulator, key) => ({
+      ...accumulator,
+      [key]: values[key] instanceof Date ? values[key] : encoded[key]
+    }),
+    {}
+  );
+};
+
+/**
+ * Insert or replace a typed (io-ts) entity in table storage.
+ *
+ * The entity is encoded with the provided type, except for its dates
+ * which are stored as Edm.DateTime (@see encodeTableEntity).
+ *
+ * @param type the io-ts type of the entity
+ * @param tableService the Azure table service
+ * @param tableName the name of the table
+ * @param entity the entity to store
+ */
+export const upsertTableEntity = <A extends ITableEntity, O>(
+  type: t.Type<A, O, unknown>,
+  tableService: azureStorage.TableService,
+  tableName: string,
+  entity: A
+): Promise<Either<Error, azureStorage.TableService.EntityMetadata>> =>
+  new Promise(resolve => {
+    tableService.insertOrReplaceEntity(
+      tableName,
+      encodeTableEntity(type, entity),
+      (err, result, _) => resolve(err ? left(err) : right(result))
+    );
+  });
+
+/**
+ * Merge the properties of a typed (io-ts) entity into the stored one,
+ * leaving untouched the properties not described by the type.
+ * The properties are encoded as by upsertTableEntity.
+ *
+ * @param type the io-ts type of the properties to be merged
+ * @param tableService the Azure table service
+ * @param tableName the name of the table
+ * @param entity the keys of the entity along with the properties to merge
+ */
+export const mergeTableEntity = <A extends ITableEntity, O>(
+  type: t.Type<A, O, unknown>,
+  tableService: azureStorage.TableService,
+  tableName: string,
+  entity: A
+): Promise<Either<Error, azureStorage.TableService.EntityMetadata>> =>
+  new Promise(resolve => {
+    tableService.mergeEntity(
+      tableName,
+      encodeTableEntity(type, entity),
+      (err, result, _) => resolve(err ? left(err) : right(result))
+    );
+  });
+
+/**
+ * Delete an entity from table storage
+ *
+ * @param tableService the Azure table service
+ * @param tableName the name of the table
+ * @param entity the keys of the entity to delete
+ *
+ * @returns false if the entity does not exist
+ */
+export const deleteTableEntity = (
+  tableService: azureStorage.TableService,
+  tableName: string,
+  { PartitionKey, RowKey }: ITableEntity
+): Promise<Either<StorageError, boolean>> =>
+  new Promise(resolve => {
+    tableService.deleteEntity<ITableEntity>(
+      tableName,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { PartitionKey, RowKey },
+      err => {
+        if (err) {
+          const errorAsStorageError = err as StorageError;
+          return resolve(
+            errorAsStorageError.code === ResourceNotFoundCode
+              ? right(false)
+              : left(errorAsStorageError)
+          );
+        }
+        return resolve(right(true));
+      }
+    );
+  });
+
+/**
+ * Query the entities of a table, following the continuation tokens.
+ *
+ * Every page of entities is fetched when the previous one has been consumed,
+ * and its rows are resolved with getValueOnlyEntityResolver before being
+ * decoded with the provided type.
+ *
+ * Example:
+ * ```
+ * const pages = queryTableEntities(
+ *   ValidationTokenEntity,
+ *   tableService,
+ *   VALIDATION_TOKEN_TABLE_NAME,
+ *   new azureStorage.TableQuery().where("FiscalCode eq ?", fiscalCode)
+ * );
+ * ```
+ *
+ * @param type the io-ts type of the entities
+ * @param tableService the Azure table service
+ * @param tableName the name of the table
+ * @param tableQuery the filter of the query
+ */
+export const queryTableEntities = <A, O>(
+  type: t.Type<A, O, unknown>,
+  tableService: azureStorage.TableService,
+  tableName: string,
+  tableQuery: azureStorage.TableQuery
+): AsyncIterable<ReadonlyArray<t.Validation<A>>> => {
+  const queryPage = (
+    continuationToken?: azureStorage.TableService.TableContinuationToken
+  ): Promise<azureStorage.TableService.QueryEntitiesResult<unknown>> =>
+    new Promise((resolve, reject) =>
+      tableService.queryEntities<unknown>(
+        tableName,
+        tableQuery,
+        // the first page is requested without a continuation token
+        continuationToken as azureStorage.TableService.TableContinuationToken,
+        { entityResolver: getValueOnlyEntityResolver },
+        (err, result, _) => (err ? reject(err) : resolve(result))
+      )
+    );
+
+  async function* getPages(): AsyncGenerator<ReadonlyArray<t.Validation<A>>> {
+    // eslint-disable-next-line functional/no-let
+    let continuationToken:
+      | azureStorage.TableService.TableContinuationToken
+      | undefined;
+    do {
+      const result = await queryPage(continuationToken);
+      yield result.entries.map(_ => type.decode(_));
+      continuationToken = result.continuationToken;
+    } while (continuationToken);
+  }
+
+  return {
+    [Symbol.asyncIterator]: getPages
+  };
+};
+
+// QUEUE STORAGE FUNCTIONS AND TYPES
+
+/**
+ * Encode a payload like the queue output bindings of Azure Functions do,
+ * as the base64 of its JSON serialization.
+ *
+ * Since base64 has no XML special chars, the message is handled as is
+ * by the default (TextXml) message encoder of the queue service.
+ */
+const encodeQueueMessage = (payload: unknown): string =>
+  Buffer.from(JSON.stringify(payload), "utf8").toString("base64");
+
+/**
+ * Decode the text of a message sent by encodeQueueMessage
+ * or by the queue output bindings of Azure Functions
+ */
+const decodeQueueMessage = <A, O>(
+  type: t.Type<A, O, unknown>,
+  messageText: string
+): Either<Error, A> => {
+  try {
+    const json = JSON.parse(
+      Buffer.from(messageText, "base64").toString("utf8")
+    );
+    return type.decode(json).mapLeft(errs => new Error(readableReport(errs)));
+  } catch (e) {
+    return left(e);
+  }
+};
+
+/**
+ * A message read from a queue
+ */
+export interface IQueueMessage<A> {
+  // how many times the message has been dequeued
+  readonly dequeueCount: number;
+  readonly insertedAt?: Date;
+  readonly messageId: string;
+  // the decoded payload, or the reason why it cannot be decoded
+  readonly payload: Either<Error, A>;
+}
+
+/**
+ * A message dequeued from a queue: it must be deleted with its popReceipt
+ * before its visibility timeout expires, otherwise it's dequeued again
+ */
+export interface IDequeuedQueueMessage<A> extends IQueueMessage<A> {
+  readonly popReceipt: string;
+}
+
+const toQueueMessage = <A, O>(
+  type: t.Type<A, O, unknown>,
+  result: azureStorage.QueueService.QueueMessageResult
+): IQueueMessage<A> => ({
+  dequeueCount: result.dequeueCount === undefined ? 0 : result.dequeueCount,
+  insertedAt:
+    result.insertionTime === undefined
+      ? undefined
+      : new Date(result.insertionTime),
+  messageId: result.messageId === undefined ? "" : result.messageId,
+  payload: decodeQueueMessage(
+    type,
+    result.messageText === undefined ? "" : result.messageText
+  )
+});
+
+export interface IEnqueueOptions {
+  // the time-to-live of the message in seconds, up to 7 days (the default)
+  readonly ttl?: number;
+  // how long the message is kept invisible after being enqueued, in seconds
+  readonly visibilityTimeout?: number;
+}
+
+/**
+ * Send a typed (io-ts) message to a queue.
+ * Assumes that the queue <queueName> already exists.
+ *
+ * @param type            the io-ts type used to encode the payload
+ * @param queueService    the Azure queue service
+ * @param queueName       the name of the queue
+ * @param payload         the payload of the message
+ */
+export const enqueue = <A, O>(
+  type: t.Type<A, O, unknown>,
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  payload: A,
+  { ttl, visibilityTimeout }: IEnqueueOptions = {}
+): Promise<Either<Error, azureStorage.QueueService.QueueMessageResult>> =>
+  new Promise(resolve =>
+    queueService.createMessage(
+      queueName,
+      encodeQueueMessage(type.encode(payload)),
+      { messageTimeToLive: ttl, visibilityTimeout },
+      (err, result, __) => resolve(err ? left(err) : right(result))
+    )
+  );
+
+/**
+ * Receive up to numOfMessages typed (io-ts) messages from a queue,
+ * making them invisible for visibilityTimeout seconds.
+ *
+ * A message that cannot be decoded is returned anyway, with a left payload,
+ * so that the caller can delete it or let it go to the poison queue.
+ *
+ * @param type            the io-ts type used to decode the payloads
+ * @param queueService    the Azure queue service
+ * @param queueName       the name of the queue
+ */
+export const dequeue = <A, O>(
+  type: t.Type<A, O, unknown>,
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  options: azureStorage.QueueService.GetMessagesRequestOptions = {}
+): Promise<Either<Error, ReadonlyArray<IDequeuedQueueMessage<A>>>> =>
+  new Promise(resolve =>
+    queueService.getMessages(queueName, options, (err, results, __) =>
+      resolve(
+        err
+          ? left(err)
+          : right(
+              results.map(result => ({
+                ...toQueueMessage(type, result),
+                popReceipt:
+                  result.popReceipt === undefined ? "" : result.popReceipt
+              }))
+            )
+      )
+    )
+  );
+
+/**
+ * Read up to numOfMessages typed (io-ts) messages from a queue,
+ * without changing their visibility.
+ *
+ * @param type            the io-ts type used to decode the payloads
+ * @param queueService    the Azure queue service
+ * @param queueName       the name of the queue
+ */
+export const peek = <A, O>(
+  type: t.Type<A, O, unknown>,
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  options: azureStorage.QueueService.PeekMessagesRequestOptions = {}
+): Promise<Either<Error, ReadonlyArray<IQueueMessage<A>>>> =>
+  new Promise(resolve =>
+    queueService.peekMessages(queueName, options, (err, results, __) =>
+      resolve(
+        err
+          ? left(err)
+          : right(results.map(result => toQueueMessage(type, result)))
+      )
+    )
+  );
+
+/**
+ * Delete a dequeued message from a queue
+ *
+ * @param queueService    the Azure queue service
+ * @param queueName       the name of the queue
+ * @param message         the message returned by dequeue
+ */
+export const deleteQueueMessage = (
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  message: Pick<IDequeuedQueueMessage<unknown>, "messageId" | "popReceipt">
+): Promise<Either<Error, true>> =>
+  new Promise(resolve =>
+    queueService.deleteMessage(
+      queueName,
+      message.messageId,
+      message.popReceipt,
+      err => resolve(err ? left(err) : right(true))
+    )
+  );
+
+/**
+ * Change the visibility timeout of a dequeued message,
+ * ie. make it visible again at once with a timeout of 0
+ *
+ * @param queueService      the Azure queue service
+ * @param queueName         the name of the queue
+ * @param message           the message returned by dequeue
+ * @param visibilityTimeout in how many seconds the message becomes visible
+ */
+export const updateQueueMessageVisibility = (
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  message: Pick<IDequeuedQueueMessage<unknown>, "messageId" | "popReceipt">,
+  visibilityTimeout: number
+): Promise<Either<Error, true>> =>
+  new Promise(resolve =>
+    queueService.updateMessage(
+      queueName,
+      message.messageId,
+      message.popReceipt,
+      visibilityTimeout,
+      err => resolve(err ? left(err) : right(true))
+    )
+  );
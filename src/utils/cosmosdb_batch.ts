@@ -0,0 +1,134 @@
+/**
+ * Server-side support for transactional batches on a CosmosDB container.
+ *
+ * Cosmos executes a stored procedure within a single transaction scoped to a
+ * partition key: if the procedure throws, every write it made is rolled back.
+ * The stored procedure defined here executes a list of operations in order
+ * and aborts at the first failure.
+ */
+import { Container, StoredProcedureDefinition } from "@azure/cosmos";
+import { fromNullable, Option } from "fp-ts/lib/Option";
+import { toError } from "fp-ts/lib/Either";
+import { TaskEither, tryCatch } from "fp-ts/lib/TaskEither";
+
+export const BATCH_STORED_PROCEDURE_ID = "executeBatch";
+
+// Status code returned by Cosmos when a resource is not found
+const NOT_FOUND_STATUS_CODE = 404;
+
+/**
+ * The failure of a single operation is reported by the stored procedure
+ * by throwing an error whose message contains the following token.
+ */
+const BATCH_OPERATION_FAILED_TOKEN = "BATCH_OPERATION_FAILED";
+
+/**
+ * Body of the stored procedure.
+ *
+ * It's written as plain ES5 as it runs inside the db engine.
+ * Operations are executed in order: each callback triggers the next operation
+ * so that the procedure never has more than one request in flight.
+ */
+const batchStoredProcedureBody = `function executeBatch(operations) {
+  var collection = getContext().getCollection();
+  var response = getContext().getResponse();
+  var results = [];
+
+  function fail(index, code) {
+    throw new Error("${BATCH_OPERATION_FAILED_TOKEN}(" + index + "," + code + ")");
+  }
+
+  function next(index) {
+    if (index >= operations.length) {
+      response.setBody(results);
+      return;
+    }
+    var operation = operations[index];
+    var callback = function(err, resource) {
+      if (err) {
+        fail(index, err.number);
+      }
+      results.push(resource || null);
+      next(index + 1);
+    };
+    var documentLink = collection.getAltLink() + "/docs/" + operation.id;
+    var accepted;
+    switch (operation.operationType) {
+      case "Create":
+        accepted = collection.createDocument(collection.getSelfLink(), operation.resourceBody, { disableAutomaticIdGeneration: true }, callback);
+        break;
+      case "Upsert":
+        accepted = collection.upsertDocument(collection.getSelfLink(), operation.resourceBody, { disableAutomaticIdGeneration: true }, callback);
+        break;
+      case "Replace":
+        accepted = collection.replaceDocument(documentLink, operation.resourceBody, { etag: operation.ifMatch }, callback);
+        break;
+      case "Delete":
+        accepted = collection.deleteDocument(documentLink, {}, callback);
+        break;
+      default:
+        fail(index, 400);
+    }
+    if (!accepted) {
+      // the procedure ran out of its time or resource budget
+      fail(index, 408);
+    }
+  }
+
+  next(0);
+}`;
+
+export const BatchStoredProcedure: StoredProcedureDefinition = {
+  body: batchStoredProcedureBody,
+  id: BATCH_STORED_PROCEDURE_ID
+};
+
+/**
+ * The failure of an operation, as reported by the stored procedure
+ */
+export interface IBatchOperationFailure {
+  readonly code: number;
+  readonly index: number;
+}
+
+/**
+ * Extracts the operation failure from the message of the error
+ * returned by the execution of the stored procedure, if any.
+ *
+ * @param message the message of the error
+ */
+export const parseBatchOperationFailure = (
+  message: string
+): Option<IBatchOperationFailure> =>
+  fromNullable(
+    new RegExp(`${BATCH_OPERATION_FAILED_TOKEN}\\((\\d+),(\\d+)\\)`).exec(
+      message
+    )
+  ).map(([, index, code]) => ({
+    code: Number(code),
+    index: Number(index)
+  }));
+
+/**
+ * Creates the batch stored procedure on the provided container,
+ * or replaces it if already exists.
+ * It must be called (i.e. at deploy time) before executing any batch
+ * on the container.
+ *
+ * @param container the Cosmos container client
+ */
+export const registerBatchStoredProcedure = (
+  container: Container
+): TaskEither<Error, StoredProcedureDefinition> =>
+  tryCatch(
+    () =>
+      container.scripts
+        .storedProcedure(BATCH_STORED_PROCEDURE_ID)
+        .replace(BatchStoredProcedure)
+        .catch(error =>
+          error.code === NOT_FOUND_STATUS_CODE
+            ? container.scripts.storedProcedures.create(BatchStoredProcedure)
+            : Promise.reject(error)
+        ),
+    toError
+  ).map(_ => BatchStoredProcedure);
@@ -0,0 +1,214 @@
+/**
+ * Utilities to process the change feed of a Cosmos container.
+ *
+ * The position reached on the change feed is stored as a checkpoint, so that
+ * every run of a processor reads the changes following the previous run.
+ * Checkpoints are guarded by a lease, so that a single processor at a time
+ * reads the same change feed.
+ */
+import * as azureStorage from "azure-storage";
+
+import { left, right } from "fp-ts/lib/Either";
+import { none, Option, some } from "fp-ts/lib/Option";
+import {
+  fromLeft,
+  TaskEither,
+  taskEither,
+  tryCatch
+} from "fp-ts/lib/TaskEither";
+
+import { fromPromiseEither } from "./async";
+import {
+  acquireLease,
+  getBlobAsText,
+  releaseLease,
+  StorageError,
+  upsertBlobFromText
+} from "./azure_storage";
+import { ChangeFeedStart, IPage } from "./cosmosdb_model";
+
+// Code used by blobService when creating a blob which already exists
+const BlobAlreadyExistsCode = "BlobAlreadyExists";
+
+/**
+ * Stores the position reached by the change feed processors
+ */
+export interface IChangeFeedCheckpointStore {
+  /**
+   * Acquire the exclusive lease on a checkpoint, returning the lease id
+   */
+  readonly acquireLease: (name: string) => TaskEither<Error, string>;
+  /**
+   * Get the continuation stored by the last run, if any
+   */
+  readonly getCheckpoint: (name: string) => TaskEither<Error, Option<string>>;
+  /**
+   * Release the lease on a checkpoint
+   */
+  readonly releaseLease: (
+    name: string,
+    leaseId: string
+  ) => TaskEither<Error, void>;
+  /**
+   * Store the continuation reached, fails if the lease has been lost
+   */
+  readonly saveCheckpoint: (
+    name: string,
+    leaseId: string,
+    continuation: string
+  ) => TaskEither<Error, void>;
+}
+
+/**
+ * A checkpoint store that keeps every checkpoint in a blob,
+ * guarded by the blob lease.
+ *
+ * Note that the lease expires after leaseDurationInSeconds: it must be
+ * longer than a whole run of the processor (-1 for an infinite lease).
+ *
+ * @param blobService the Azure blob service
+ * @param containerName the name of the (existing) blob storage container
+ * @param leaseDurationInSeconds the duration of the lease, from 15 to 60
+ */
+export const getBlobCheckpointStore = (
+  blobService: azureStorage.BlobService,
+  containerName: string,
+  leaseDurationInSeconds: number = 60
+): IChangeFeedCheckpointStore => {
+  // a blob must exist before it can be leased, so an empty checkpoint
+  // is created the first time, without overwriting an existing one
+  const createIfNotExists = (name: string): TaskEither<Error, void> =>
+    fromPromiseEither(() =>
+      upsertBlobFromText(blobService, containerName, name, "", {
+        accessConditions: { EtagNonMatch: "*" }
+      })
+    ).foldTaskEither(
+      error =>
+        (error as StorageError).code === BlobAlreadyExistsCode
+          ? taskEither.of<Error, void>(undefined)
+          : fromLeft(error),
+      () => taskEither.of(undefined)
+    );
+
+  return {
+    acquireLease: (name): TaskEither<Error, string> =>
+      createIfNotExists(name)
+        .chain(() =>
+          fromPromiseEither(() =>
+            acquireLease(blobService, containerName, name, {
+              leaseDuration: leaseDurationInSeconds
+            })
+          )
+        )
+        .chain(leaseResult =>
+          fromPromiseEither(() =>
+            Promise.resolve(
+              leaseResult.id === undefined
+                ? left<Error, string>(
+                    new Error(`Cannot acquire the lease on ${name}`)
+                  )
+                : right<Error, string>(leaseResult.id)
+            )
+          )
+        ),
+    getCheckpoint: (name): TaskEither<Error, Option<string>> =>
+      fromPromiseEither(() =>
+        getBlobAsText(blobService, containerName, name)
+      ).map(maybeText =>
+        maybeText.chain(text => (text === "" ? none : some(text)))
+      ),
+    releaseLease: (name, leaseId): TaskEither<Error, void> =>
+      fromPromiseEither(() =>
+        releaseLease(blobService, containerName, name, leaseId)
+      ).map(() => undefined),
+    saveCheckpoint: (name, leaseId, continuation): TaskEither<Error, void> =>
+      fromPromiseEither(() =>
+        upsertBlobFromText(blobService, containerName, name, continuation, {
+          leaseId
+        })
+      ).map(() => undefined)
+  };
+};
+
+/**
+ * Process the changes following the stored checkpoint, page by page.
+ *
+ * The checkpoint is saved after every page has been handled, so that a
+ * failing run resumes from the first page that has not been handled.
+ * The lease on the checkpoint is held during the whole run.
+ *
+ * @param getChangeFeed returns the pages of the change feed from a start,
+ *                      i.e. the getChangeFeedIterator method of a model
+ *                      bound to a partition key
+ * @param checkpointStore where the checkpoints are stored
+ * @param checkpointName the name of the checkpoint of this processor,
+ *                       which must be distinct for each partition key
+ * @param initialStart where to start from if no checkpoint is stored
+ * @param handler handles the items of a page
+ *
+ * @returns the number of items handled
+ */
+export const processChangeFeed = <T>(
+  getChangeFeed: (start: ChangeFeedStart) => AsyncIterable<IPage<T>>,
+  checkpointStore: IChangeFeedCheckpointStore,
+  checkpointName: string,
+  initialStart: ChangeFeedStart,
+  handler: (items: ReadonlyArray<T>) => TaskEither<Error, unknown>
+): TaskEither<Error, number> =>
+  checkpointStore.acquireLease(checkpointName).chain(leaseId => {
+    const processPages = (start: ChangeFeedStart): Promise<number> => {
+      const iterator = getChangeFeed(start)[Symbol.asyncIterator]();
+      const processNextPage = (processed: number): Promise<number> =>
+        iterator.next().then(next =>
+          next.done
+            ? processed
+            : handler(next.value.items)
+                .chain(() =>
+                  next.value.continuationToken.foldL(
+                    () => taskEither.of<Error, void>(undefined),
+                    (continuation: string) =>
+                      checkpointStore.saveCheckpoint(
+                        checkpointName,
+                        leaseId,
+                        continuation
+                      )
+                  )
+                )
+                .run()
+                .then(result =>
+                  result.fold(
+                    error => Promise.reject(error),
+                    () => processNextPage(processed + next.value.items.length)
+                  )
+                )
+        );
+      return processNextPage(0);
+    };
+
+    return checkpointStore
+      .getCheckpoint(checkpointName)
+      .chain(maybeContinuation =>
+        tryCatch(
+          () =>
+            processPages(
+              maybeContinuation.foldL<ChangeFeedStart>(
+                () => initialStart,
+                continuation => ({ continuation, kind: "CONTINUATION" })
+              )
+            ),
+          error => (error instanceof Error ? error : new Error(String(error)))
+        )
+      )
+      .foldTaskEither(
+        // the lease is released anyway, reporting the processing error
+        error =>
+          checkpointStore.releaseLease(checkpointName, leaseId).foldTaskEither(
+            () => fromLeft<Error, number>(error),
+            () => fromLeft<Error, number>(error)
+          ),
+        processed =>
+          checkpointStore
+            .releaseLease(checkpointName, leaseId)
+            .map(() => processed)
+      );
+  });
@@ -0,0 +1,907 @@
+/**
+ * An in-memory implementation of a CosmosDB Container.
+ *
+ * It's meant to run model logic in unit tests and local development
+ * without any external service. It supports:
+ *  - items.create, items.upsert, items.readAll, items.query
+ *  - item(id, partitionKey).read, .replace and .delete
+ *  - partition keys, 409 Conflict on duplicated ids, 412 Precondition Failed
+ *    on IfMatch conditions and the generation of _etag, _ts, _rid and _self
+ *
+ * Queries are evaluated on the following subset of Cosmos SQL:
+ *  SELECT [TOP n] * | m.field, ... FROM m
+ *    [WHERE condition]
+ *    [ORDER BY m.field [ASC|DESC], ...]
+ * where a condition combines with AND, OR, NOT and parentheses
+ * comparisons (=, !=, <>, <, <=, >, >=), IN lists and IS_DEFINED checks
+ * of fields, literals and parameters.
+ *
+ * Stored procedures, triggers and the change feed are not supported.
+ */
+import { randomBytes } from "crypto";
+
+import {
+  Constants,
+  Container,
+  FeedOptions,
+  FeedResponse,
+  Item,
+  ItemDefinition,
+  ItemResponse,
+  RequestOptions,
+  Resource,
+  SqlQuerySpec
+} from "@azure/cosmos";
+
+import { ulidGenerator } from "./strings";
+
+const BAD_REQUEST_STATUS_CODE = 400;
+const NOT_FOUND_STATUS_CODE = 404;
+const CONFLICT_STATUS_CODE = 409;
+const PRECONDITION_FAILED_STATUS_CODE = 412;
+
+// Page size used by Cosmos when maxItemCount is not provided
+const DEFAULT_MAX_ITEM_COUNT = 100;
+
+type StoredDocument = ItemDefinition & Resource;
+
+/**
+ * Builds an error shaped as the ones thrown by the Cosmos SDK
+ */
+const cosmosError = (code: number, message: string): Error =>
+  Object.assign(new Error(message), { code });
+
+const clone = <T>(o: T): T => JSON.parse(JSON.stringify(o));
+
+const getPath = (document: unknown, segments: ReadonlyArray<string>): unknown =>
+  segments.reduce<unknown>(
+    (value, segment) =>
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)[segment]
+        : undefined,
+    document
+  );
+
+// ---------------------------------------------------------------------------
+// Query parsing
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { readonly kind: "WORD"; readonly value: string }
+  | { readonly kind: "STRING"; readonly value: string }
+  | { readonly kind: "NUMBER"; readonly value: number }
+  | { readonly kind: "PARAMETER"; readonly value: string }
+  | { readonly kind: "SYMBOL"; readonly value: string };
+
+const TOKEN_PATTERN = /^\s*(?:(@\w+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?)|([A-Za-z_]\w*)|(<=|>=|!=|<>|[=<>(),.*[\]]))/;
+
+const unescape = (s: string): string => s.replace(/\\(.)/g, "$1");
+
+const tokenize = (input: string): ReadonlyArray<Token> => {
+  if (input.trim().length === 0) {
+    return [];
+  }
+  const match = TOKEN_PATTERN.exec(input);
+  if (match === null) {
+    throw cosmosError(
+      BAD_REQUEST_STATUS_CODE,
+      `Syntax error near: ${input.trim()}`
+    );
+  }
+  const [text, parameter, singleQuoted, doubleQuoted, num, word] = match;
+  const token: Token =
+    parameter !== undefined
+      ? { kind: "PARAMETER", value: parameter }
+      : singleQuoted !== undefined
+      ? { kind: "STRING", value: unescape(singleQuoted) }
+      : doubleQuoted !== undefined
+      ? { kind: "STRING", value: unescape(doubleQuoted) }
+      : num !== undefined
+      ? { kind: "NUMBER", value: Number(num) }
+      : word !== undefined
+      ? { kind: "WORD", value: word }
+      : { kind: "SYMBOL", value: match[6] };
+  return [token, ...tokenize(input.slice(text.length))];
+};
+
+type Operand =
+  | {
+      readonly kind: "IS_DEFINED" | "PATH";
+      readonly path: ReadonlyArray<string>;
+    }
+  | { readonly kind: "VALUE"; readonly value: unknown };
+
+type Expression =
+  | {
+      readonly kind: "AND" | "OR";
+      readonly left: Expression;
+      readonly right: Expression;
+    }
+  | { readonly kind: "NOT"; readonly expression: Expression }
+  | {
+      readonly kind: "COMPARISON";
+      readonly left: Operand;
+      readonly operator: string;
+      readonly right: Operand;
+    }
+  | {
+      readonly kind: "IN";
+      readonly negated: boolean;
+      readonly operand: Operand;
+      readonly values: ReadonlyArray<Operand>;
+    }
+  | { readonly kind: "OPERAND"; readonly operand: Operand };
+
+interface IParsedQuery {
+  readonly alias: string;
+  readonly orderBy: ReadonlyArray<{
+    readonly descending: boolean;
+    readonly path: ReadonlyArray<string>;
+  }>;
+  // undefined means SELECT *
+  readonly projection?: ReadonlyArray<ReadonlyArray<string>>;
+  readonly top?: number;
+  readonly where?: Expression;
+}
+
+// A parser consumes tokens from a position and returns
+// the parsed value along with the position of the next token
+type Parsed<T> = readonly [T, number];
+
+const COMPARISON_OPERATORS: ReadonlyArray<string> = [
+  "=",
+  "!=",
+  "<>",
+  "<",
+  "<=",
+  ">",
+  ">="
+];
+
+const isWord = (token: Token | undefined, word: string): boolean =>
+  token !== undefined &&
+  token.kind === "WORD" &&
+  token.value.toUpperCase() === word;
+
+const isSymbol = (token: Token | undefined, symbol: string): boolean =>
+  token !== undefined && token.kind === "SYMBOL" && token.value === symbol;
+
+const unexpected = (token: Token | undefined): Error =>
+  cosmosError(
+    BAD_REQUEST_STATUS_CODE,
+    token === undefined
+      ? "Unexpected end of query"
+      : `Unexpected token: ${token.value}`
+  );
+
+const expectWord = (
+  tokens: ReadonlyArray<Token>,
+  i: number,
+  word: string
+): number => {
+  if (!isWord(tokens[i], word)) {
+    throw unexpected(tokens[i]);
+  }
+  return i + 1;
+};
+
+const expectSymbol = (
+  tokens: ReadonlyArray<Token>,
+  i: number,
+  symbol: string
+): number => {
+  if (!isSymbol(tokens[i], symbol)) {
+    throw unexpected(tokens[i]);
+  }
+  return i + 1;
+};
+
+/**
+ * Parses a comma separated list of items
+ */
+const parseList = <T>(
+  tokens: ReadonlyArray<Token>,
+  i: number,
+  parseItem: (tokens: ReadonlyArray<Token>, i: number) => Parsed<T>
+): Parsed<ReadonlyArray<T>> => {
+  const [item, next] = parseItem(tokens, i);
+  if (!isSymbol(tokens[next], ",")) {
+    return [[item], next];
+  }
+  const [items, end] = parseList(tokens, next + 1, parseItem);
+  return [[item, ...items], end];
+};
+
+/**
+ * Parses a path like m.field.nested or m["field"]
+ */
+const parsePath = (
+  tokens: ReadonlyArray<Token>,
+  i: number,
+  path: ReadonlyArray<string> = []
+): Parsed<ReadonlyArray<string>> => {
+  const token = tokens[i];
+  if (path.length === 0) {
+    if (token === undefined || token.kind !== "WORD") {
+      throw unexpected(token);
+    }
+    return parsePath(tokens, i + 1, [token.value]);
+  }
+  if (isSymbol(token, ".")) {
+    const segment = tokens[i + 1];
+    if (segment === undefined || segment.kind !== "WORD") {
+      throw unexpected(segment);
+    }
+    return parsePath(tokens, i + 2, [...path, segment.value]);
+  }
+  if (isSymbol(token, "[")) {
+    const segment = tokens[i + 1];
+    if (segment === undefined || segment.kind !== "STRING") {
+      throw unexpected(segment);
+    }
+    return parsePath(tokens, expectSymbol(tokens, i + 2, "]"), [
+      ...path,
+      segment.value
+    ]);
+  }
+  return [path, i];
+};
+
+const LITERALS: Readonly<Record<string, unknown>> = {
+  FALSE: false,
+  NULL: null,
+  TRUE: true,
+  UNDEFINED: undefined
+};
+
+const parseOperand = (
+  parameters: ReadonlyMap<string, unknown>,
+  tokens: ReadonlyArray<Token>,
+  i: number
+): Parsed<Operand> => {
+  const token = tokens[i];
+  if (token === undefined) {
+    throw unexpected(token);
+  }
+  switch (token.kind) {
+    case "PARAMETER":
+      if (!parameters.has(token.value)) {
+        throw cosmosError(
+          BAD_REQUEST_STATUS_CODE,
+          `Missing parameter: ${token.value}`
+        );
+      }
+      return [{ kind: "VALUE", value: parameters.get(token.value) }, i + 1];
+    case "STRING":
+    case "NUMBER":
+      return [{ kind: "VALUE", value: token.value }, i + 1];
+    case "WORD": {
+      const literal = token.value.toUpperCase();
+      if (literal in LITERALS) {
+        return [{ kind: "VALUE", value: LITERALS[literal] }, i + 1];
+      }
+      if (literal === "IS_DEFINED" && isSymbol(tokens[i + 1], "(")) {
+        const [definedPath, afterPath] = parsePath(tokens, i + 2);
+        return [
+          { kind: "IS_DEFINED", path: definedPath },
+          expectSymbol(tokens, afterPath, ")")
+        ];
+      }
+      const [path, next] = parsePath(tokens, i);
+      return [{ kind: "PATH", path }, next];
+    }
+    default:
+      throw unexpected(token);
+  }
+};
+
+const parsePrimary = (
+  parameters: ReadonlyMap<string, unknown>,
+  tokens: ReadonlyArray<Token>,
+  i: number
+): Parsed<Expression> => {
+  if (isSymbol(tokens[i], "(")) {
+    // eslint-disable-next-line @typescript-eslint/no-use-before-define
+    const [expression, afterExpression] = parseExpression(
+      parameters,
+      tokens,
+      i + 1
+    );
+    return [expression, expectSymbol(tokens, afterExpression, ")")];
+  }
+  const [left, next] = parseOperand(parameters, tokens, i);
+  const token = tokens[next];
+  if (
+    token !== undefined &&
+    token.kind === "SYMBOL" &&
+    COMPARISON_OPERATORS.includes(token.value)
+  ) {
+    const [right, end] = parseOperand(parameters, tokens, next + 1);
+    return [{ kind: "COMPARISON", left, operator: token.value, right }, end];
+  }
+  const negated = isWord(token, "NOT");
+  const inPosition = negated ? next + 1 : next;
+  if (isWord(tokens[inPosition], "IN")) {
+    const [values, end] = parseList(
+      tokens,
+      expectSymbol(tokens, inPosition + 1, "("),
+      (ts, j) => parseOperand(parameters, ts, j)
+    );
+    return [
+      { kind: "IN", negated, operand: left, values },
+      expectSymbol(tokens, end, ")")
+    ];
+  }
+  return [{ kind: "OPERAND", operand: left }, next];
+};
+
+const parseUnary = (
+  parameters: ReadonlyMap<string, unknown>,
+  tokens: ReadonlyArray<Token>,
+  i: number
+): Parsed<Expression> => {
+  if (isWord(tokens[i], "NOT")) {
+    const [expression, next] = parseUnary(parameters, tokens, i + 1);
+    return [{ expression, kind: "NOT" }, next];
+  }
+  return parsePrimary(parameters, tokens, i);
+};
+
+/**
+ * Parses a sequence of operands joined by the provided boolean operator
+ */
+const parseBinary = (
+  operator: "AND" | "OR",
+  parseOperandExpression: (i: number) => Parsed<Expression>,
+  tokens: ReadonlyArray<Token>,
+  i: number
+): Parsed<Expression> => {
+  const [left, next] = parseOperandExpression(i);
+  if (!isWord(tokens[next], operator)) {
+    return [left, next];
+  }
+  const [right, end] = parseBinary(
+    operator,
+    parseOperandExpression,
+    tokens,
+    next + 1
+  );
+  return [{ kind: operator, left, right }, end];
+};
+
+const parseExpression = (
+  parameters: ReadonlyMap<string, unknown>,
+  tokens: ReadonlyArray<Token>,
+  i: number
+): Parsed<Expression> =>
+  parseBinary(
+    "OR",
+    j => parseBinary("AND", k => parseUnary(parameters, tokens, k), tokens, j),
+    tokens,
+    i
+  );
+
+const parseQuery = (query: string | SqlQuerySpec): IParsedQuery => {
+  const spec = typeof query === "string" ? { query } : query;
+  const parameters = new Map(
+    (spec.parameters || []).map(_ => [_.name, _.value] as const)
+  );
+  const tokens = tokenize(spec.query);
+
+  const afterSelect = expectWord(tokens, 0, "SELECT");
+  const [top, afterTop] = isWord(tokens[afterSelect], "TOP")
+    ? parseOperand(parameters, tokens, afterSelect + 1)
+    : [undefined, afterSelect];
+  if (
+    top !== undefined &&
+    (top.kind !== "VALUE" || !Number.isInteger(top.value))
+  ) {
+    throw cosmosError(BAD_REQUEST_STATUS_CODE, "TOP must be an integer");
+  }
+  const [projection, afterProjection] = isSymbol(tokens[afterTop], "*")
+    ? [undefined, afterTop + 1]
+    : parseList(tokens, afterTop, parsePath);
+
+  const afterFrom = expectWord(tokens, afterProjection, "FROM");
+  const aliasToken = tokens[afterFrom];
+  if (aliasToken === undefined || aliasToken.kind !== "WORD") {
+    throw unexpected(aliasToken);
+  }
+
+  const [where, afterWhere] = isWord(tokens[afterFrom + 1], "WHERE")
+    ? parseExpression(parameters, tokens, afterFrom + 2)
+    : [undefined, afterFrom + 1];
+
+  const [orderBy, afterOrderBy] = isWord(tokens[afterWhere], "ORDER")
+    ? parseList(
+        tokens,
+        expectWord(tokens, afterWhere + 1, "BY"),
+        (ts, j): Parsed<IParsedQuery["orderBy"][number]> => {
+          const [path, next] = parsePath(ts, j);
+          const descending = isWord(ts[next], "DESC");
+          return [
+            { descending, path },
+            descending || isWord(ts[next], "ASC") ? next + 1 : next
+          ];
+        }
+      )
+    : [[], afterWhere];
+
+  if (afterOrderBy < tokens.length) {
+    throw unexpected(tokens[afterOrderBy]);
+  }
+
+  return {
+    alias: aliasToken.value,
+    orderBy,
+    projection,
+    top: top === undefined ? undefined : Number(top.value),
+    where
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Query evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves a path on a document, skipping the alias of the FROM clause
+ */
+const resolvePath = (
+  alias: string,
+  document: StoredDocument,
+  path: ReadonlyArray<string>
+): unknown => {
+  const [root, ...segments] = path;
+  if (root !== alias) {
+    throw cosmosError(BAD_REQUEST_STATUS_CODE, `Unknown identifier: ${root}`);
+  }
+  return getPath(document, segments);
+};
+
+const evaluateOperand = (
+  alias: string,
+  document: StoredDocument,
+  operand: Operand
+): unknown => {
+  switch (operand.kind) {
+    case "PATH":
+      return resolvePath(alias, document, operand.path);
+    case "IS_DEFINED":
+      return resolvePath(alias, document, operand.path) !== undefined;
+    case "VALUE":
+      return operand.value;
+    default:
+      throw cosmosError(BAD_REQUEST_STATUS_CODE, "Unknown operand");
+  }
+};
+
+// the relative order of values of different types, as used by ORDER BY
+const typeRank = (value: unknown): number =>
+  value === undefined
+    ? 0
+    : value === null
+    ? 1
+    : typeof value === "boolean"
+    ? 2
+    : typeof value === "number"
+    ? 3
+    : typeof value === "string"
+    ? 4
+    : 5;
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const rankDifference = typeRank(a) - typeRank(b);
+  if (rankDifference !== 0) {
+    return rankDifference;
+  }
+  const [x, y] =
+    typeRank(a) === 5 ? [JSON.stringify(a), JSON.stringify(b)] : [a, b];
+  return (x as number) < (y as number) ? -1 : x === y ? 0 : 1;
+};
+
+/**
+ * Compares two values with the semantics of Cosmos SQL:
+ * comparing undefined values or values of different types yields undefined
+ */
+const compare = (
+  operator: string,
+  a: unknown,
+  b: unknown
+): boolean | undefined => {
+  if (a === undefined || b === undefined || typeRank(a) !== typeRank(b)) {
+    return undefined;
+  }
+  const order = compareValues(a, b);
+  switch (operator) {
+    case "=":
+      return order === 0;
+    case "!=":
+    case "<>":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    default:
+      throw cosmosError(
+        BAD_REQUEST_STATUS_CODE,
+        `Unknown operator: ${operator}`
+      );
+  }
+};
+
+// AND and OR on the three-valued logic of Cosmos SQL
+const and = (
+  left: boolean | undefined,
+  right: boolean | undefined
+): boolean | undefined =>
+  left === false || right === false
+    ? false
+    : left === true && right === true
+    ? true
+    : undefined;
+
+const or = (
+  left: boolean | undefined,
+  right: boolean | undefined
+): boolean | undefined =>
+  left === true || right === true
+    ? true
+    : left === false && right === false
+    ? false
+    : undefined;
+
+const evaluate = (
+  alias: string,
+  document: StoredDocument,
+  expression: Expression
+): boolean | undefined => {
+  switch (expression.kind) {
+    case "AND":
+    case "OR":
+      return (expression.kind === "AND" ? and : or)(
+        evaluate(alias, document, expression.left),
+        evaluate(alias, document, expression.right)
+      );
+    case "NOT": {
+      const value = evaluate(alias, document, expression.expression);
+      return value === undefined ? undefined : !value;
+    }
+    case "COMPARISON":
+      return compare(
+        expression.operator,
+        evaluateOperand(alias, document, expression.left),
+        evaluateOperand(alias, document, expression.right)
+      );
+    case "IN": {
+      const value = evaluateOperand(alias, document, expression.operand);
+      const found = expression.values.some(
+        _ => compare("=", value, evaluateOperand(alias, document, _)) === true
+      );
+      return value === undefined ? undefined : found !== expression.negated;
+    }
+    case "OPERAND": {
+      const value = evaluateOperand(alias, document, expression.operand);
+      return typeof value === "boolean" ? value : undefined;
+    }
+    default:
+      throw cosmosError(BAD_REQUEST_STATUS_CODE, "Unknown expression");
+  }
+};
+
+const project = (
+  alias: string,
+  document: StoredDocument,
+  projection: IParsedQuery["projection"]
+): unknown =>
+  projection === undefined
+    ? document
+    : projection.reduce<Record<string, unknown>>((projected, path) => {
+        const value = resolvePath(alias, document, path);
+        return value === undefined
+          ? projected
+          : { ...projected, [path[path.length - 1]]: value };
+      }, {});
+
+const executeQuery = (
+  query: IParsedQuery,
+  documents: ReadonlyArray<StoredDocument>
+): ReadonlyArray<unknown> => {
+  const where = query.where;
+  const filtered =
+    where === undefined
+      ? documents
+      : documents.filter(_ => evaluate(query.alias, _, where) === true);
+  const sorted =
+    query.orderBy.length === 0
+      ? filtered
+      : [...filtered].sort((a, b) =>
+          query.orderBy.reduce(
+            (order, { descending, path }) =>
+              order !== 0
+                ? order
+                : compareValues(
+                    resolvePath(query.alias, a, path),
+                    resolvePath(query.alias, b, path)
+                  ) * (descending ? -1 : 1),
+            0
+          )
+        );
+  return (query.top === undefined
+    ? sorted
+    : sorted.slice(0, query.top)
+  ).map(_ => project(query.alias, _, query.projection));
+};
+
+// ---------------------------------------------------------------------------
+// Container
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns an iterator over the results, paginated as requested by the options.
+ * The continuation token is the offset of the next page.
+ *
+ * As for the iterators of the SDK, each call to fetchNext returns the page
+ * following the one returned by the previous call.
+ */
+const toQueryIterator = <T>(
+  getResults: () => ReadonlyArray<T>,
+  options: FeedOptions = {}
+): {
+  readonly fetchAll: () => Promise<FeedResponse<T>>;
+  readonly fetchNext: () => Promise<FeedResponse<T>>;
+  readonly getAsyncIterator: () => AsyncIterable<FeedResponse<T>>;
+} => {
+  const pageSize =
+    options.maxItemCount !== undefined && options.maxItemCount > 0
+      ? options.maxItemCount
+      : DEFAULT_MAX_ITEM_COUNT;
+  const start =
+    options.continuationToken !== undefined
+      ? Number(options.continuationToken)
+      : 0;
+  const getPage = (
+    results: ReadonlyArray<T>,
+    offset: number
+  ): FeedResponse<T> => {
+    const next = offset + pageSize;
+    const hasMoreResults = next < results.length;
+    return new FeedResponse(
+      results.slice(offset, next),
+      hasMoreResults
+        ? { [Constants.HttpHeaders.Continuation]: String(next) }
+        : {},
+      hasMoreResults
+    );
+  };
+  // eslint-disable-next-line functional/no-let
+  let nextPageOffset = start;
+  return {
+    fetchAll: async (): Promise<FeedResponse<T>> =>
+      new FeedResponse([...getResults()], {}, false),
+    fetchNext: async (): Promise<FeedResponse<T>> => {
+      const page = getPage(getResults(), nextPageOffset);
+      nextPageOffset += pageSize;
+      return page;
+    },
+    async *getAsyncIterator(): AsyncGenerator<FeedResponse<T>> {
+      const results = getResults();
+      const pagesCount = Math.max(
+        Math.ceil((results.length - start) / pageSize),
+        1
+      );
+      const offsets = Array.from(
+        { length: pagesCount },
+        (_, page) => start + page * pageSize
+      );
+      for (const offset of offsets) {
+        yield getPage(results, offset);
+      }
+    }
+  };
+};
+
+/**
+ * Creates an empty in-memory container
+ *
+ * @param partitionKeyPath the path of the partition key, ie. "/fiscalCode"
+ * @param containerId the id of the container
+ */
+export const createInMemoryContainer = (
+  partitionKeyPath: string = "/id",
+  containerId: string = "in-memory"
+): Container => {
+  const documents = new Map<string, StoredDocument>();
+
+  const partitionKeySegments = partitionKeyPath.split("/").filter(_ => _);
+  const getPartitionKey = (document: unknown): unknown =>
+    getPath(document, partitionKeySegments);
+
+  const toKey = (id: string, partitionKey: unknown): string =>
+    JSON.stringify([id, partitionKey === undefined ? null : partitionKey]);
+
+  // when the partition key is not provided the document is looked up
+  // on every partition
+  const findDocument = (
+    id: string,
+    partitionKey: unknown
+  ): StoredDocument | undefined =>
+    partitionKey !== undefined
+      ? documents.get(toKey(id, partitionKey))
+      : [...documents.values()].find(_ => _.id === id);
+
+  const getDocuments = (
+    options: FeedOptions = {}
+  ): ReadonlyArray<StoredDocument> =>
+    [...documents.values()].filter(
+      _ =>
+        options.partitionKey === undefined ||
+        compareValues(getPartitionKey(_), options.partitionKey) === 0
+    );
+
+  const save = (body: ItemDefinition): StoredDocument => {
+    const id = String(body.id);
+    const rid = randomBytes(8).toString("base64");
+    const document: StoredDocument = {
+      ...clone(body),
+      _etag: `"${randomBytes(16).toString("hex")}"`,
+      _rid: rid,
+      _self: `dbs/in-memory/colls/${containerId}/docs/${rid}/`,
+      _ts: Math.floor(Date.now() / 1000),
+      id
+    };
+    documents.set(toKey(id, getPartitionKey(document)), document);
+    return document;
+  };
+
+  const withId = (
+    body: ItemDefinition,
+    options: RequestOptions = {}
+  ): ItemDefinition => {
+    if (body.id !== undefined) {
+      return body;
+    }
+    if (options.disableAutomaticIdGeneration) {
+      throw cosmosError(BAD_REQUEST_STATUS_CODE, "Missing document id");
+    }
+    return { ...body, id: ulidGenerator() };
+  };
+
+  const item = (id: string, partitionKey?: unknown): Item => {
+    const self = ({
+      delete: async (): Promise<ItemResponse<ItemDefinition>> => {
+        const existing = findDocument(id, partitionKey);
+        if (existing === undefined) {
+          throw cosmosError(NOT_FOUND_STATUS_CODE, "Resource Not Found");
+        }
+        documents.delete(toKey(existing.id, getPartitionKey(existing)));
+        return new ItemResponse(
+          (undefined as unknown) as StoredDocument,
+          {},
+          204,
+          0,
+          self
+        );
+      },
+      id,
+      read: async (): Promise<ItemResponse<ItemDefinition>> => {
+        // a missing document is not an error on read
+        const existing = findDocument(id, partitionKey);
+        return existing === undefined
+          ? new ItemResponse(
+              (undefined as unknown) as StoredDocument,
+              {},
+              NOT_FOUND_STATUS_CODE,
+              0,
+              self
+            )
+          : new ItemResponse(
+              clone(existing),
+              // eslint-disable-next-line no-underscore-dangle
+              { etag: existing._etag },
+              200,
+              0,
+              self
+            );
+      },
+      replace: async (
+        body: ItemDefinition,
+        options: RequestOptions = {}
+      ): Promise<ItemResponse<ItemDefinition>> => {
+        const existing = findDocument(
+          id,
+          partitionKey !== undefined ? partitionKey : getPartitionKey(body)
+        );
+        if (existing === undefined) {
+          throw cosmosError(NOT_FOUND_STATUS_CODE, "Resource Not Found");
+        }
+        const accessCondition = options.accessCondition;
+        if (
+          accessCondition !== undefined &&
+          accessCondition.type === "IfMatch" &&
+          // eslint-disable-next-line no-underscore-dangle
+          accessCondition.condition !== existing._etag
+        ) {
+          throw cosmosError(
+            PRECONDITION_FAILED_STATUS_CODE,
+            "Precondition Failed"
+          );
+        }
+        documents.delete(toKey(existing.id, getPartitionKey(existing)));
+        const document = save({ ...body, id });
+        return new ItemResponse(
+          clone(document),
+          // eslint-disable-next-line no-underscore-dangle
+          { etag: document._etag },
+          200,
+          0,
+          self
+        );
+      }
+    } as unknown) as Item;
+    return self;
+  };
+
+  const items = {
+    create: async (
+      body: ItemDefinition,
+      options?: RequestOptions
+    ): Promise<ItemResponse<ItemDefinition>> => {
+      const toCreate = withId(body, options);
+      if (
+        documents.has(toKey(String(toCreate.id), getPartitionKey(toCreate)))
+      ) {
+        throw cosmosError(
+          CONFLICT_STATUS_CODE,
+          "Entity with the specified id already exists in the system."
+        );
+      }
+      const document = save(toCreate);
+      return new ItemResponse(
+        clone(document),
+        // eslint-disable-next-line no-underscore-dangle
+        { etag: document._etag },
+        201,
+        0,
+        item(document.id, getPartitionKey(document))
+      );
+    },
+    query: (
+      query: string | SqlQuerySpec,
+      options?: FeedOptions
+    ): ReturnType<typeof toQueryIterator> => {
+      const parsed = parseQuery(query);
+      return toQueryIterator(
+        () => clone(executeQuery(parsed, getDocuments(options))),
+        options
+      );
+    },
+    readAll: (options?: FeedOptions): ReturnType<typeof toQueryIterator> =>
+      toQueryIterator(() => clone(getDocuments(options)), options),
+    upsert: async (
+      body: ItemDefinition,
+      options?: RequestOptions
+    ): Promise<ItemResponse<ItemDefinition>> => {
+      const toUpsert = withId(body, options);
+      const isNew = !documents.has(
+        toKey(String(toUpsert.id), getPartitionKey(toUpsert))
+      );
+      const document = save(toUpsert);
+      return new ItemResponse(
+        clone(document),
+        // eslint-disable-next-line no-underscore-dangle
+        { etag: document._etag },
+        isNew ? 201 : 200,
+        0,
+        item(document.id, getPartitionKey(document))
+      );
+    }
+  };
+
+  return ({ id: containerId, item, items } as unknown) as Container;
+};
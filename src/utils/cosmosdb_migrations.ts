@@ -0,0 +1,114 @@
+/**
+ * Schema migrations of Cosmos documents.
+ *
+ * Every document is tagged with the version of the schema it was written
+ * with, in the `schemaVersion` field: documents written before a model
+ * declared any migration don't have it and are at version 0.
+ *
+ * A model declares the ordered list of its schema upgraders: the i-th
+ * upgrader turns a document at version i into a document at version i + 1,
+ * hence the latest version is the number of upgraders.
+ *
+ * Both the codecs of a model must be wrapped with the same upgraders:
+ * the one of the new documents tags them with the latest version when
+ * they're written, the one of the retrieved documents upgrades them.
+ *
+ * Documents of plain models can be rewritten with the latest schema by
+ * CosmosdbModel.migrateToLatestSchema. The revisions of versioned models
+ * are never rewritten, since replacing them would change the time they
+ * were saved at: they're upgraded when read, and migrateToLatestSchema
+ * fails on versioned models.
+ *
+ * Example:
+ * ```
+ * const profileUpgraders: ReadonlyArray<SchemaUpgrader> = [
+ *   // v0 -> v1: email notifications used to be always enabled
+ *   document => ({ isEmailEnabled: true, ...document })
+ * ];
+ * class ProfileModel extends CosmosdbModelVersioned<
+ *   Profile,
+ *   NewProfile,
+ *   RetrievedProfile,
+ *   typeof PROFILE_MODEL_PK_FIELD
+ * > {
+ *   constructor(container: Container) {
+ *     super(
+ *       container,
+ *       withSchemaMigrations(NewProfile, profileUpgraders),
+ *       withSchemaMigrations(RetrievedProfile, profileUpgraders),
+ *       "fiscalCode" as const
+ *     );
+ *   }
+ * }
+ * ```
+ */
+import * as t from "io-ts";
+
+export const SCHEMA_VERSION_FIELD = "schemaVersion";
+
+/**
+ * Upgrades a document to the next version of its schema
+ */
+export type SchemaUpgrader = (
+  document: Readonly<Record<string, unknown>>
+) => Readonly<Record<string, unknown>>;
+
+const isRecord = (u: unknown): u is Readonly<Record<string, unknown>> =>
+  typeof u === "object" && u !== null && !Array.isArray(u);
+
+/**
+ * Returns the schema version of a stored document
+ *
+ * @param document the raw document
+ */
+export const getSchemaVersion = (document: unknown): unknown =>
+  isRecord(document) && document[SCHEMA_VERSION_FIELD] !== undefined
+    ? document[SCHEMA_VERSION_FIELD]
+    : 0;
+
+/**
+ * Wraps the codec of a document so that documents written with an older
+ * schema are upgraded before being decoded, and encoded documents are
+ * tagged with the latest schema version.
+ *
+ * Documents tagged with an unknown schema version (i.e. written by a newer
+ * release of the model) are rejected.
+ *
+ * @param codec the codec of the latest version of the document
+ * @param upgraders the ordered list of upgraders, starting from version 0
+ */
+export const withSchemaMigrations = <A, O>(
+  codec: t.Type<A, O, unknown>,
+  upgraders: ReadonlyArray<SchemaUpgrader>
+): t.Type<A, O, unknown> =>
+  new t.Type<A, O, unknown>(
+    codec.name,
+    codec.is,
+    (u, c) => {
+      if (!isRecord(u)) {
+        return codec.validate(u, c);
+      }
+      const version = getSchemaVersion(u);
+      return typeof version === "number" &&
+        Number.isInteger(version) &&
+        version >= 0 &&
+        version <= upgraders.length
+        ? codec.validate(
+            {
+              ...upgraders.slice(version).reduce((d, upgrade) => upgrade(d), u),
+              [SCHEMA_VERSION_FIELD]: upgraders.length
+            },
+            c
+          )
+        : t.failure(u, c, `Unknown schema version ${String(version)}`);
+    },
+    a => {
+      const encoded = codec.encode(a);
+      return isRecord(encoded)
+        ? (({
+            ...encoded,
+            [SCHEMA_VERSION_FIELD]: upgraders.length
+          } as unknown) as O)
+        : encoded;
+    }
+  );
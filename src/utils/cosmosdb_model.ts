@@ -1,13 +1,18 @@
 // eslint-disable @typescript-eslint/member-ordering
 
-import { right } from "fp-ts/lib/Either";
+import { array } from "fp-ts/lib/Array";
+import { Either, either, fromOption, right } from "fp-ts/lib/Either";
 import { fromNullable, none, Option, some } from "fp-ts/lib/Option";
+import { delay, Task, taskSeq } from "fp-ts/lib/Task";
 import { fromEither, TaskEither, tryCatch } from "fp-ts/lib/TaskEither";
 import * as t from "io-ts";
 
 import { PromiseType } from "@pagopa/ts-commons/lib/types";
+import { Millisecond } from "@pagopa/ts-commons/lib/units";
+import { TelemetryClient } from "applicationinsights";
 
 import {
+  ChangeFeedOptions,
   Container,
   ErrorResponse,
   FeedOptions,
@@ -16,11 +21,18 @@ import {
   ItemResponse,
   RequestOptions,
   Resource,
+  ResourceResponse,
   SqlQuerySpec
 } from "@azure/cosmos";
 
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
 import { mapAsyncIterable } from "./async";
+import {
+  BATCH_STORED_PROCEDURE_ID,
+  parseBatchOperationFailure
+} from "./cosmosdb_batch";
+import { ErrorTypes, PermanentError, TransientError } from "./errors";
+import { getSchemaVersion } from "./cosmosdb_migrations";
 import { isDefined } from "./types";
 
 export const CosmosDocumentIdKey = "id" as const;
@@ -96,11 +108,40 @@ export const CosmosErrorResponse = (error: ErrorResponse) =>
     kind: "COSMOS_ERROR_RESPONSE"
   } as const);
 
+// A precondition failure from a Cosmos operation,
+// i.e. the document has been modified since it was read
+export const CosmosConflictResponse = (error: ErrorResponse) =>
+  ({
+    error,
+    kind: "COSMOS_CONFLICT_RESPONSE"
+  } as const);
+
 // Union of all possible errors from a Cosmos operation
 export type CosmosErrors =
   | typeof CosmosEmptyResponse
   | ReturnType<typeof CosmosDecodingError>
-  | ReturnType<typeof CosmosErrorResponse>;
+  | ReturnType<typeof CosmosErrorResponse>
+  | ReturnType<typeof CosmosConflictResponse>;
+
+// The failure of a single operation of a batch,
+// which caused the whole batch to be aborted
+export const CosmosBatchOperationError = (
+  index: number,
+  error: ErrorResponse
+) =>
+  ({
+    error,
+    index,
+    kind: "COSMOS_BATCH_OPERATION_ERROR"
+  } as const);
+
+// Union of all possible errors from a batch of Cosmos operations
+export type CosmosBatchErrors =
+  | CosmosErrors
+  | ReturnType<typeof CosmosBatchOperationError>;
+
+// Status code returned by Cosmos when an access condition is not satisfied
+const PRECONDITION_FAILED_STATUS_CODE = 412;
 
 export const toCosmosErrorResponse = (
   e: unknown
@@ -109,6 +150,361 @@ export const toCosmosErrorResponse = (
     (e instanceof Error ? e : new Error(String(e))) as ErrorResponse
   );
 
+// Status code returned by Cosmos when the request rate is too large
+const TOO_MANY_REQUESTS_STATUS_CODE = 429;
+
+// Delays used to retry the upserts of a bulk when the model has
+// no retry policy and the db engine doesn't tell when to retry
+const DEFAULT_BULK_RETRY_BASE_DELAY = 1000 as Millisecond;
+const DEFAULT_BULK_RETRY_MAX_DELAY = 10000 as Millisecond;
+
+/**
+ * Whether the error is due to the request rate being too large
+ * for the provisioned throughput
+ */
+export const isCosmosThrottlingError = (
+  error: CosmosErrors
+): error is ReturnType<typeof CosmosErrorResponse> =>
+  error.kind === "COSMOS_ERROR_RESPONSE" &&
+  error.error.code === TOO_MANY_REQUESTS_STATUS_CODE;
+
+// Status codes of the errors which may not occur again retrying the operation:
+// request timeout, too many requests, retry with and service unavailable
+const TRANSIENT_ERROR_STATUS_CODES: ReadonlyArray<number> = [
+  408,
+  TOO_MANY_REQUESTS_STATUS_CODE,
+  449,
+  503
+];
+
+/**
+ * Classifies an error from a Cosmos operation as transient,
+ * when retrying the operation may succeed, or permanent otherwise.
+ */
+export const toCosmosRuntimeError = (
+  error: CosmosErrors
+): TransientError | PermanentError => {
+  switch (error.kind) {
+    case "COSMOS_ERROR_RESPONSE":
+      return TRANSIENT_ERROR_STATUS_CODES.includes(Number(error.error.code))
+        ? TransientError(error.error.message, error.error)
+        : PermanentError(error.error.message, error.error);
+    case "COSMOS_CONFLICT_RESPONSE":
+      return PermanentError(error.error.message, error.error);
+    default:
+      return PermanentError(error.kind);
+  }
+};
+
+/**
+ * How failed operations are retried
+ */
+export interface IRetryPolicy {
+  // the maximum number of times an operation is executed, retries included
+  readonly maxAttempts: number;
+  // the delay before the first retry, doubled on each of the following ones
+  readonly baseDelay: Millisecond;
+  // the maximum delay between two attempts
+  readonly maxDelay: Millisecond;
+  // when provided, a dependency telemetry is tracked for every attempt
+  readonly telemetryClient?: TelemetryClient;
+}
+
+/**
+ * Returns the delay before retrying an operation: the one suggested by the
+ * db engine if any, an exponential backoff with jitter otherwise.
+ *
+ * @param policy the retry policy
+ * @param error the error of the failed attempt
+ * @param attempt the number of the failed attempt, starting from 1
+ */
+export const getRetryDelay = (
+  policy: IRetryPolicy,
+  error: CosmosErrors,
+  attempt: number
+): number => {
+  if (
+    error.kind === "COSMOS_ERROR_RESPONSE" &&
+    error.error.retryAfterInMs !== undefined
+  ) {
+    return error.error.retryAfterInMs;
+  }
+  const backoff = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, attempt - 1)
+  );
+  return backoff / 2 + (Math.random() * backoff) / 2;
+};
+
+/**
+ * Executes a task, executing it again as defined by the retry policy
+ * every time it fails with a transient error.
+ *
+ * @param policy the retry policy
+ * @param operation the name of the operation, used for telemetry
+ * @param target the name of the container, used for telemetry
+ * @param task the task to execute
+ * @param attempt the number of the current attempt, starting from 1
+ */
+const withRetryPolicy = <A>(
+  policy: IRetryPolicy,
+  operation: string,
+  target: string,
+  task: TaskEither<CosmosErrors, A>,
+  attempt: number = 1
+): TaskEither<CosmosErrors, A> =>
+  new TaskEither(
+    new Task(() => {
+      const start = Date.now();
+      return task.run().then(result => {
+        fromNullable(policy.telemetryClient).map(_ =>
+          _.trackDependency({
+            data: operation,
+            dependencyTypeName: "Azure DocumentDB",
+            duration: Date.now() - start,
+            name: operation,
+            properties: { attempt },
+            resultCode: result.fold(
+              error =>
+                error.kind === "COSMOS_ERROR_RESPONSE" ||
+                error.kind === "COSMOS_CONFLICT_RESPONSE"
+                  ? String(error.error.code)
+                  : error.kind,
+              () => "OK"
+            ),
+            success: result.isRight(),
+            target
+          })
+        );
+        return result.isLeft() &&
+          attempt < policy.maxAttempts &&
+          toCosmosRuntimeError(result.value).kind === ErrorTypes.TransientError
+          ? delay(getRetryDelay(policy, result.value, attempt), undefined)
+              .run()
+              .then(() =>
+                withRetryPolicy(
+                  policy,
+                  operation,
+                  target,
+                  task,
+                  attempt + 1
+                ).run()
+              )
+          : result;
+      });
+    })
+  );
+
+/**
+ * Maps an error from a conditional operation into a CosmosErrors,
+ * distinguishing precondition failures from any other error response
+ */
+const toCosmosConditionalErrorResponse = (e: unknown): CosmosErrors => {
+  const errorResponse = toCosmosErrorResponse(e);
+  return errorResponse.error.code === PRECONDITION_FAILED_STATUS_CODE
+    ? CosmosConflictResponse(errorResponse.error)
+    : errorResponse;
+};
+
+// The keys of T whose values are assignable to V
+type KeysOfType<T, V> = {
+  readonly [K in keyof T]-?: NonNullable<T[K]> extends V ? K : never;
+}[keyof T];
+
+// The keys of T whose values can be undefined
+type OptionalKeys<T> = {
+  readonly [K in keyof T]-?: undefined extends T[K] ? K : never;
+}[keyof T];
+
+/**
+ * A single operation of a partial update of a document.
+ * Operations are constrained to the (top-level) fields of T:
+ *  - set: assigns a value to a field
+ *  - remove: removes an optional field
+ *  - add: appends an element to an array field
+ *  - increment: increments a numeric field by the provided value
+ */
+export type PatchOperation<T> =
+  | {
+      readonly [K in keyof T]: {
+        readonly op: "set";
+        readonly path: K;
+        readonly value: T[K];
+      };
+    }[keyof T]
+  | {
+      readonly [K in OptionalKeys<T>]: {
+        readonly op: "remove";
+        readonly path: K;
+      };
+    }[OptionalKeys<T>]
+  | {
+      readonly [K in KeysOfType<T, ReadonlyArray<unknown>>]: {
+        readonly op: "add";
+        readonly path: K;
+        readonly value: NonNullable<T[K]> extends ReadonlyArray<infer E>
+          ? E
+          : never;
+      };
+    }[KeysOfType<T, ReadonlyArray<unknown>>]
+  | {
+      readonly [K in KeysOfType<T, number>]: {
+        readonly op: "increment";
+        readonly path: K;
+        readonly value: number;
+      };
+    }[KeysOfType<T, number>];
+
+/**
+ * Applies a patch operation to a document, returning a modified clone of it
+ */
+const applyPatchOperation = <T>(
+  document: T,
+  operation: PatchOperation<T>
+): T => {
+  const fields = (document as unknown) as Readonly<Record<string, unknown>>;
+  const path = String(operation.path);
+  switch (operation.op) {
+    case "set":
+      return { ...document, [path]: operation.value };
+    case "remove": {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [path]: _, ...rest } = fields;
+      return (rest as unknown) as T;
+    }
+    case "add":
+      return {
+        ...document,
+        [path]: [
+          ...((fields[path] as ReadonlyArray<unknown> | undefined) || []),
+          operation.value
+        ]
+      };
+    case "increment":
+      return {
+        ...document,
+        [path]: Number(fields[path] || 0) + operation.value
+      };
+    default:
+      return document;
+  }
+};
+
+// Builds the error returned when the condition of a patch is not satisfied,
+// the same a conditional operation would get from the db engine
+const toPatchConditionFailedError = (): ReturnType<typeof CosmosConflictResponse> =>
+  CosmosConflictResponse(
+    Object.assign(new Error("Patch condition not satisfied"), {
+      code: PRECONDITION_FAILED_STATUS_CODE
+    })
+  );
+
+// Default maximum number of retries of a throttled upsert in a bulk
+const DEFAULT_BULK_MAX_RETRIES = 10;
+
+/**
+ * Options for a bulk upsert
+ */
+export interface IBulkUpsertOptions<TN> {
+  // the maximum number of upserts in flight at the same time
+  readonly concurrency: number;
+  // the maximum number of times an upsert failed with a transient error
+  // is retried, ignored when the model has a retry policy of its own
+  readonly maxRetries?: number;
+  // invoked for each document that cannot be upserted,
+  // the bulk is aborted if it returns false
+  readonly onError?: (error: CosmosErrors, document: TN) => boolean;
+}
+
+/**
+ * The result of the upsert of a single document of a bulk
+ */
+export interface IBulkUpsertItemResult<TN, TR> {
+  readonly kind: "BULK_UPSERT_ITEM_RESULT";
+  readonly document: TN;
+  readonly result: Either<CosmosErrors, TR>;
+  // how many times the upsert has been retried, by the bulk
+  // or by the retry policy of the model
+  readonly retries: number;
+}
+
+/**
+ * The outcome of a whole bulk upsert
+ */
+export interface IBulkUpsertSummary {
+  readonly kind: "BULK_UPSERT_SUMMARY";
+  // whether the bulk was stopped by onError
+  readonly aborted: boolean;
+  readonly failed: number;
+  // how many documents needed at least a retry because of throttling
+  readonly retried: number;
+  readonly succeeded: number;
+}
+
+export type BulkUpsertEvent<TN, TR> =
+  | IBulkUpsertItemResult<TN, TR>
+  | IBulkUpsertSummary;
+
+/**
+ * A page of results of a query, along with the token to
+ * continue the query from the next page (if any)
+ */
+export interface IPage<T> {
+  readonly continuationToken: Option<string>;
+  readonly items: ReadonlyArray<T>;
+}
+
+/**
+ * Where to start reading the change feed from
+ */
+export type ChangeFeedStart =
+  | { readonly kind: "BEGINNING" }
+  | { readonly kind: "NOW" }
+  | {
+      // the continuation of the last page read
+      readonly continuation: string;
+      readonly kind: "CONTINUATION";
+    };
+
+/**
+ * The outcome of rewriting the documents of a collection
+ * to the latest version of their schema
+ */
+export interface ISchemaMigrationReport {
+  // the documents which could not be migrated
+  readonly failed: ReadonlyArray<{
+    readonly error: CosmosErrors;
+    readonly id: string;
+  }>;
+  // the number of migrated documents
+  readonly migrated: number;
+}
+
+/**
+ * A single operation of a transactional batch
+ */
+export type BatchOperation<TN, TR> =
+  | { readonly operationType: "Create"; readonly resourceBody: TN }
+  | { readonly operationType: "Upsert"; readonly resourceBody: TN }
+  | { readonly operationType: "Replace"; readonly resourceBody: TR }
+  | { readonly operationType: "Delete"; readonly id: string };
+
+/**
+ * Maps an error from the execution of a batch into a CosmosBatchErrors,
+ * pointing out the operation which aborted the batch (if any)
+ */
+const toCosmosBatchErrorResponse = (e: unknown): CosmosBatchErrors => {
+  const errorResponse = toCosmosErrorResponse(e);
+  return parseBatchOperationFailure(String(errorResponse.error.message)).fold<
+    CosmosBatchErrors
+  >(errorResponse, ({ code, index }) =>
+    CosmosBatchOperationError(
+      index,
+      Object.assign(new Error(`Batch operation ${index} failed`), { code })
+    )
+  );
+};
+
 const wrapCreate = <TN, TR>(
   newItemT: t.Type<TN, ItemDefinition, unknown>,
   retrievedItemT: t.Type<TR, unknown, unknown>,
@@ -162,11 +558,15 @@ export abstract class CosmosdbModel<
    * container.
    *
    * Note: the partition key is retrieved from the Container metadata.
+   *
+   * When a retry policy is provided, create, upsert, find and findOneByQuery
+   * are retried on transient errors (ie. throttling).
    */
   constructor(
     protected readonly container: Container,
     protected readonly newItemT: t.Type<TN, ItemDefinition, unknown>,
-    protected readonly retrievedItemT: t.Type<TR, unknown, unknown>
+    protected readonly retrievedItemT: t.Type<TR, unknown, unknown>,
+    protected readonly retryPolicy?: IRetryPolicy
   ) {}
 
   /**
@@ -179,11 +579,14 @@ export abstract class CosmosdbModel<
     newDocument: TN,
     options?: RequestOptions
   ): TaskEither<CosmosErrors, TR> {
-    return wrapCreate<TN, TR>(
-      this.newItemT,
-      this.retrievedItemT,
-      this.container.items.create.bind(this.container.items)
-    )(newDocument, options);
+    return this.withRetry(
+      "create",
+      wrapCreate<TN, TR>(
+        this.newItemT,
+        this.retrievedItemT,
+        this.container.items.create.bind(this.container.items)
+      )(newDocument, options)
+    );
   }
 
   /**
@@ -195,11 +598,190 @@ export abstract class CosmosdbModel<
     newDocument: TN,
     options?: RequestOptions
   ): TaskEither<CosmosErrors, TR> {
-    return wrapCreate(
-      this.newItemT,
-      this.retrievedItemT,
-      this.container.items.upsert.bind(this.container.items)
-    )(newDocument, options);
+    return this.withRetry(
+      "upsert",
+      wrapCreate(
+        this.newItemT,
+        this.retrievedItemT,
+        this.container.items.upsert.bind(this.container.items)
+      )(newDocument, options)
+    );
+  }
+
+  /**
+   * Replaces an existing document with the provided revision of it.
+   *
+   * The _etag of the provided document is used as an IfMatch condition,
+   * so the operation fails with COSMOS_CONFLICT_RESPONSE if the document
+   * has been modified since it was retrieved: in such case, the caller
+   * should read the document again before retrying.
+   *
+   * @param document the retrieved document with the updated fields
+   * @param options query options for the db operation
+   */
+  public replace(
+    document: TR,
+    options?: RequestOptions
+  ): TaskEither<CosmosErrors, TR> {
+    return tryCatch<CosmosErrors, ItemResponse<ItemDefinition>>(
+      () =>
+        // the partition key is extracted from the document itself
+        this.container.item(document.id).replace(
+          // we encode using the retrieved type as the document is supposed
+          // to be previously read from the database
+          this.retrievedItemT.encode(document) as ItemDefinition,
+          {
+            // eslint-disable-next-line no-underscore-dangle
+            accessCondition: { condition: document._etag, type: "IfMatch" },
+            ...options
+          }
+        ),
+      toCosmosConditionalErrorResponse
+    )
+      .map(_ => _.resource)
+      .filterOrElse(isDefined, CosmosEmptyResponse)
+      .chain(_ =>
+        fromEither(this.retrievedItemT.decode(_).mapLeft(CosmosDecodingError))
+      );
+  }
+
+  /**
+   * Partially updates an existing document by applying a list of operations
+   * to its fields.
+   *
+   * The resulting document is validated against the retrieved type and then
+   * saved with an optimistic concurrency check (see replace): if the document
+   * gets modified meanwhile, COSMOS_CONFLICT_RESPONSE is returned.
+   * COSMOS_EMPTY_RESPONSE is returned if the document does not exist.
+   *
+   * @param searchKey the tuple of values used to look-up the document
+   * @param operations the operations to apply, in order
+   * @param condition (optional) a predicate the current document must satisfy
+   *                  for the patch to be applied; COSMOS_CONFLICT_RESPONSE is
+   *                  returned otherwise
+   * @param options query options for the db operation
+   */
+  public patch(
+    searchKey: DocumentSearchKey<TR, CosmosDocumentIdKey, PartitionKey>,
+    operations: ReadonlyArray<PatchOperation<T>>,
+    condition?: (document: TR) => boolean,
+    options?: RequestOptions
+  ): TaskEither<CosmosErrors, TR> {
+    return this.find(searchKey)
+      .chain(maybeDocument =>
+        fromEither(fromOption(CosmosEmptyResponse)(maybeDocument))
+      )
+      .filterOrElseL(
+        document => condition === undefined || condition(document),
+        toPatchConditionFailedError
+      )
+      .chain(document =>
+        fromEither(
+          this.retrievedItemT
+            .decode(
+              operations.reduce<T>(
+                applyPatchOperation,
+                (document as unknown) as T
+              )
+            )
+            .mapLeft(CosmosDecodingError)
+        )
+      )
+      .chain(patchedDocument => this.replace(patchedDocument, options));
+  }
+
+  /**
+   * Creates or updates the documents provided by an iterable, executing up to
+   * `concurrency` upserts at the same time.
+   *
+   * Each document is saved by upsert, so any override of a concrete model
+   * applies. When the model has a retry policy, failed upserts are retried
+   * by the policy only; otherwise the bulk retries the upserts failed with
+   * a transient error up to maxRetries times, after the delay suggested by
+   * the db engine or an exponential backoff. Either way, the retries of
+   * each upsert are reported along with its result.
+   *
+   * @param documents the documents to be saved
+   * @param options the bulk options
+   *
+   * @returns an iterable that yields the result of each upsert, in order of
+   *          completion, followed by the summary of the whole bulk
+   */
+  public async *bulkUpsert(
+    documents: AsyncIterable<TN>,
+    options: IBulkUpsertOptions<TN>
+  ): AsyncGenerator<BulkUpsertEvent<TN, TR>> {
+    const {
+      concurrency,
+      maxRetries = DEFAULT_BULK_MAX_RETRIES,
+      onError = (): boolean => true
+    } = options;
+    const iterator = documents[Symbol.asyncIterator]();
+    const inFlight = new Map<
+      number,
+      Promise<IBulkUpsertItemResult<TN, TR> & { readonly index: number }>
+    >();
+    /* eslint-disable functional/no-let */
+    let index = 0;
+    let exhausted = false;
+    let aborted = false;
+    let succeeded = 0;
+    let failed = 0;
+    let retried = 0;
+    /* eslint-enable functional/no-let */
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      while (
+        !exhausted &&
+        !aborted &&
+        inFlight.size < Math.max(concurrency, 1)
+      ) {
+        const next = await iterator.next();
+        if (next.done === true) {
+          exhausted = true;
+        } else {
+          const document = next.value;
+          const itemIndex = index++;
+          // eslint-disable-next-line functional/immutable-data
+          inFlight.set(
+            itemIndex,
+            this.upsertWithBulkRetries(document, maxRetries).then(_ => ({
+              ..._,
+              document,
+              index: itemIndex,
+              kind: "BULK_UPSERT_ITEM_RESULT" as const
+            }))
+          );
+        }
+      }
+      if (inFlight.size === 0) {
+        break;
+      }
+
+      const { index: completedIndex, ...itemResult } = await Promise.race(
+        inFlight.values()
+      );
+      // eslint-disable-next-line functional/immutable-data
+      inFlight.delete(completedIndex);
+      retried += itemResult.retries > 0 ? 1 : 0;
+      if (itemResult.result.isRight()) {
+        succeeded++;
+      } else {
+        failed++;
+        aborted =
+          aborted || !onError(itemResult.result.value, itemResult.document);
+      }
+      yield itemResult;
+    }
+
+    yield {
+      aborted,
+      failed,
+      kind: "BULK_UPSERT_SUMMARY",
+      retried,
+      succeeded
+    };
   }
 
   /**
@@ -215,9 +797,12 @@ export abstract class CosmosdbModel<
     // documentId must be always valued,
     // meanwhile partitionKey might be undefined
     const [documentId, partitionKey = documentId] = searchKey;
-    return tryCatch<CosmosErrors, ItemResponse<TR>>(
-      () => this.container.item(documentId, partitionKey).read(options),
-      toCosmosErrorResponse
+    return this.withRetry(
+      "find",
+      tryCatch<CosmosErrors, ItemResponse<TR>>(
+        () => this.container.item(documentId, partitionKey).read(options),
+        toCosmosErrorResponse
+      )
     )
       .map(_ => fromNullable(_.resource))
       .chain(_ =>
@@ -232,6 +817,100 @@ export abstract class CosmosdbModel<
       );
   }
 
+  /**
+   * Executes a list of operations on the documents of a partition
+   * as a single transaction: either every operation succeeds or none of them
+   * gets applied.
+   *
+   * Operations are executed in order. Replace operations use the _etag of the
+   * provided document as an IfMatch condition, as replace does.
+   * Note that operations are executed as-is, bypassing any override of
+   * create/upsert/replace that a concrete model may define.
+   *
+   * The batch is executed by a stored procedure which must be registered
+   * on the container, see registerBatchStoredProcedure.
+   *
+   * @param partitionKey the value of the partition key shared by the documents
+   * @param operations the operations to execute
+   * @param options query options for the db operation
+   *
+   * @returns the resulting document for each operation (none for deletes)
+   *          or a COSMOS_BATCH_OPERATION_ERROR referring to the index of the
+   *          operation which aborted the batch
+   */
+  public batch(
+    partitionKey: (T & BaseModel)[PartitionKey],
+    operations: ReadonlyArray<BatchOperation<TN, TR>>,
+    options?: RequestOptions
+  ): TaskEither<CosmosBatchErrors, ReadonlyArray<Option<TR>>> {
+    const encodedOperations = operations.map(operation => {
+      switch (operation.operationType) {
+        case "Create":
+        case "Upsert":
+          return {
+            id: operation.resourceBody.id,
+            operationType: operation.operationType,
+            resourceBody: this.newItemT.encode(operation.resourceBody)
+          };
+        case "Replace":
+          return {
+            id: operation.resourceBody.id,
+            // eslint-disable-next-line no-underscore-dangle
+            ifMatch: operation.resourceBody._etag,
+            operationType: operation.operationType,
+            resourceBody: this.retrievedItemT.encode(operation.resourceBody)
+          };
+        default:
+          return operation;
+      }
+    });
+    return tryCatch<
+      CosmosBatchErrors,
+      ResourceResponse<ReadonlyArray<ItemDefinition | null>>
+    >(
+      () =>
+        this.container.scripts
+          .storedProcedure(BATCH_STORED_PROCEDURE_ID)
+          .execute(partitionKey, [encodedOperations], options),
+      toCosmosBatchErrorResponse
+    )
+      .map(_ => _.resource)
+      .filterOrElse(isDefined, CosmosEmptyResponse)
+      .chain(results =>
+        fromEither(
+          array
+            .traverse(either)([...results], result =>
+              result === null
+                ? right<t.Errors, Option<TR>>(none)
+                : this.retrievedItemT.decode(result).map(some)
+            )
+            .mapLeft(CosmosDecodingError)
+        )
+      );
+  }
+
+  /**
+   * Deletes a document.
+   *
+   * A 404 Not Found error will be raised by the db engine
+   * if the document does not exist.
+   *
+   * @param searchKey The tuple of values used to look-up a document. It can be [documentId] or [documentId, partitionKey] depending on the definition of the model instance.
+   * @param options query options for the db operation
+   *
+   * @returns the id of the deleted document
+   */
+  public delete(
+    searchKey: DocumentSearchKey<TR, CosmosDocumentIdKey, PartitionKey>,
+    options?: RequestOptions
+  ): TaskEither<CosmosErrors, string> {
+    const [documentId, partitionKey = documentId] = searchKey;
+    return tryCatch<CosmosErrors, ItemResponse<ItemDefinition>>(
+      () => this.container.item(documentId, partitionKey).delete(options),
+      toCosmosErrorResponse
+    ).map(_ => documentId);
+  }
+
   /**
    * Get an iterator to process all documents of the collection.
    */
@@ -251,14 +930,124 @@ export abstract class CosmosdbModel<
     query: string | SqlQuerySpec,
     options?: FeedOptions
   ): AsyncIterable<ReadonlyArray<t.Validation<TR>>> {
-    const iterator = this.container.items
-      .query(query, options)
-      .getAsyncIterator();
+    const iterator = this.getQueryPages(query, options);
     return mapAsyncIterable(iterator, feedResponse =>
       feedResponse.resources.map(this.retrievedItemT.decode)
     );
   }
 
+  /**
+   * Get an iterator to process all documents returned by a specific query
+   * page by page, along with the continuation token of each page.
+   *
+   * The query can be resumed after a page by providing its continuation token
+   * as `continuationToken` option, while `maxItemCount` sets the page size.
+   */
+  public getPaginatedQueryIterator(
+    query: string | SqlQuerySpec,
+    options?: FeedOptions
+  ): AsyncIterable<IPage<t.Validation<TR>>> {
+    const iterator = this.getQueryPages(query, options);
+    return mapAsyncIterable(iterator, feedResponse => ({
+      continuationToken: fromNullable(feedResponse.continuationToken),
+      items: feedResponse.resources.map(this.retrievedItemT.decode)
+    }));
+  }
+
+  /**
+   * Rewrite the documents of the collection whose schema is older than
+   * the one of the model, as defined by the schema migrations applied
+   * to the codec of the model (see withSchemaMigrations).
+   *
+   * Documents are replaced one at a time with an IfMatch condition, so that
+   * concurrent updates are never overwritten: such documents are reported
+   * as failed and can be migrated by running the job again.
+   *
+   * Note that replacing a document updates its _ts: models relying on the
+   * _ts of their documents (i.e. versioned models) fail instead.
+   *
+   * @param options options to restrict the documents to migrate, i.e. partitionKey
+   */
+  public migrateToLatestSchema(
+    options?: FeedOptions
+  ): TaskEither<CosmosErrors, ISchemaMigrationReport> {
+    const iterator = this.container.items
+      .readAll(options)
+      .getAsyncIterator()
+      [Symbol.asyncIterator]();
+    const migrateNextPage = (
+      report: ISchemaMigrationReport
+    ): Promise<ISchemaMigrationReport> =>
+      iterator.next().then(({ done, value }) =>
+        done
+          ? report
+          : array
+              .traverse(taskSeq)(
+                value.resources.filter(this.isSchemaOutdated),
+                (document: ItemDefinition) =>
+                  fromEither<CosmosErrors, TR>(
+                    this.retrievedItemT
+                      .decode(document)
+                      .mapLeft(CosmosDecodingError)
+                  )
+                    .chain(_ => this.replace(_))
+                    .fold(
+                      error => ({ error, id: String(document.id) }),
+                      () => undefined
+                    )
+              )
+              .run()
+              .then(results => {
+                const failed = results.filter(isDefined);
+                return migrateNextPage({
+                  failed: [...report.failed, ...failed],
+                  migrated: report.migrated + results.length - failed.length
+                });
+              })
+      );
+    return tryCatch<CosmosErrors, ISchemaMigrationReport>(
+      () => migrateNextPage({ failed: [], migrated: 0 }),
+      toCosmosErrorResponse
+    );
+  }
+
+  /**
+   * Get an iterator to process the documents created or updated in the
+   * collection, page by page, in the order they were modified.
+   *
+   * The iteration ends when every change has been read: the continuation of
+   * the last page can be stored to read the following changes later on.
+   * Note that deletions are not reported by the change feed.
+   *
+   * The change feed is read one partition key at a time, since the SDK
+   * cannot read it across the partitions of a container: the changes of
+   * every partition key must be read (and checkpointed) separately.
+   *
+   * @param start where to start reading the change feed from
+   * @param partitionKey the partition key whose changes are read
+   * @param maxItemCount the maximum size of a page
+   */
+  public getChangeFeedIterator(
+    start: ChangeFeedStart,
+    partitionKey: string | number | boolean,
+    maxItemCount?: number
+  ): AsyncIterable<IPage<t.Validation<TR>>> {
+    const changeFeedOptions: ChangeFeedOptions = {
+      maxItemCount,
+      ...(start.kind === "BEGINNING" ? { startFromBeginning: true } : {}),
+      ...(start.kind === "CONTINUATION"
+        ? { continuation: start.continuation }
+        : {})
+    };
+    const iterator = this.container.items
+      .changeFeed(partitionKey, changeFeedOptions)
+      .getAsyncIterator();
+    return mapAsyncIterable(iterator, changeFeedResponse => ({
+      continuationToken: fromNullable(changeFeedResponse.continuation),
+      items: changeFeedResponse.result.map(this.retrievedItemT.decode)
+    }));
+  }
+
   /**
    * Fetch all documents of the collection.
    * Note that this method loads all items in memory at once, it should be used
@@ -283,9 +1072,12 @@ export abstract class CosmosdbModel<
     query: string | SqlQuerySpec,
     options?: FeedOptions
   ): TaskEither<CosmosErrors, Option<TR>> {
-    return tryCatch<CosmosErrors, FeedResponse<TR>>(
-      () => this.container.items.query<TR>(query, options).fetchAll(),
-      toCosmosErrorResponse
+    return this.withRetry(
+      "query",
+      tryCatch<CosmosErrors, FeedResponse<TR>>(
+        () => this.container.items.query<TR>(query, options).fetchAll(),
+        toCosmosErrorResponse
+      )
     )
       .map(_ => fromNullable(_.resources))
       .chain(_ =>
@@ -301,4 +1093,123 @@ export abstract class CosmosdbModel<
           : fromEither(right(none))
       );
   }
+
+  /**
+   * Whether a stored document has a schema version which differs from
+   * the one it would have if written by the model
+   */
+  private readonly isSchemaOutdated = (document: ItemDefinition): boolean =>
+    // eslint-disable-next-line no-invalid-this
+    this.retrievedItemT.decode(document).fold(
+      () => true,
+      decoded =>
+        getSchemaVersion(
+          // eslint-disable-next-line no-invalid-this
+          this.retrievedItemT.encode(decoded)
+        ) !== getSchemaVersion(document)
+    );
+
+  /**
+   * Upserts a document of a bulk, retrying it by the retry policy of the
+   * model or, if the model has none, by the default policy of the bulk.
+   *
+   * The policy of the model is applied by the bulk to the whole upsert,
+   * which is executed by a view of the model without the policy, so that
+   * its attempts are counted without being retried twice.
+   */
+  private upsertWithBulkRetries(
+    document: TN,
+    maxRetries: number
+  ): Promise<{
+    readonly result: Either<CosmosErrors, TR>;
+    readonly retries: number;
+  }> {
+    const modelWithoutRetries: this =
+      this.retryPolicy === undefined
+        ? this
+        : Object.create(this, { retryPolicy: { value: undefined } });
+    // eslint-disable-next-line functional/no-let
+    let attempts = 0;
+    const upsert = new TaskEither(
+      new Task(() => {
+        attempts++;
+        return modelWithoutRetries.upsert(document).run();
+      })
+    );
+    return (this.retryPolicy === undefined
+      ? withRetryPolicy(
+          {
+            baseDelay: DEFAULT_BULK_RETRY_BASE_DELAY,
+            maxAttempts: maxRetries + 1,
+            maxDelay: DEFAULT_BULK_RETRY_MAX_DELAY
+          },
+          "bulkUpsert",
+          this.container.id,
+          upsert
+        )
+      : withRetryPolicy(this.retryPolicy, "upsert", this.container.id, upsert)
+    )
+      .run()
+      .then(result => ({ result, retries: attempts - 1 }));
+  }
+
+  /**
+   * Returns the pages of a query, applying the retry policy of the model
+   * (if any) to the fetch of each page of a single partition query.
+   *
+   * Since a query cannot be resumed once a fetch fails, a failed page is
+   * requested again by a new query continuing from the last page retrieved.
+   * Cross partition queries are not retried instead, since the SDK neither
+   * returns nor accepts their continuation tokens.
+   */
+  private getQueryPages(
+    query: string | SqlQuerySpec,
+    options?: FeedOptions
+  ): AsyncIterable<FeedResponse<unknown>> {
+    if (this.retryPolicy === undefined || options?.partitionKey === undefined) {
+      return this.container.items.query(query, options).getAsyncIterator();
+    }
+    const fetchPage = (
+      continuationToken: string | undefined
+    ): TaskEither<CosmosErrors, FeedResponse<unknown>> =>
+      this.withRetry(
+        "query",
+        tryCatch<CosmosErrors, FeedResponse<unknown>>(
+          () =>
+            this.container.items
+              .query(query, { ...options, continuationToken })
+              .fetchNext(),
+          toCosmosErrorResponse
+        )
+      );
+    async function* getPages(): AsyncGenerator<FeedResponse<unknown>> {
+      // eslint-disable-next-line functional/no-let
+      let continuationToken = options?.continuationToken;
+      do {
+        const result = await fetchPage(continuationToken).run();
+        if (result.isLeft()) {
+          // iterators fail with the error of the db engine
+          throw result.value.kind === "COSMOS_ERROR_RESPONSE"
+            ? result.value.error
+            : new Error(result.value.kind);
+        }
+        yield result.value;
+        continuationToken = result.value.continuationToken;
+      } while (continuationToken !== undefined);
+    }
+    return { [Symbol.asyncIterator]: getPages };
+  }
+
+  /**
+   * Applies the retry policy of the model, if any, to the task
+   * executing an operation on the db
+   */
+  private withRetry<A>(
+    operation: string,
+    task: TaskEither<CosmosErrors, A>
+  ): TaskEither<CosmosErrors, A> {
+    return this.retryPolicy === undefined
+      ? task
+      : withRetryPolicy(this.retryPolicy, operation, this.container.id, task);
+  }
 }
@@ -1,7 +1,16 @@
+import { isDeepStrictEqual } from "util";
 import * as t from "io-ts";
 
+import { array } from "fp-ts/lib/Array";
+import { right } from "fp-ts/lib/Either";
 import { Option } from "fp-ts/lib/Option";
-import { fromEither, TaskEither } from "fp-ts/lib/TaskEither";
+import {
+  fromEither,
+  fromLeft,
+  TaskEither,
+  taskEitherSeq,
+  tryCatch
+} from "fp-ts/lib/TaskEither";
 
 import {
   INonNegativeIntegerTag,
@@ -11,18 +20,30 @@ import {
 import {
   Container,
   ItemDefinition,
+  ItemResponse,
   RequestOptions,
   SqlQuerySpec
 } from "@azure/cosmos";
 import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { Millisecond } from "@pagopa/ts-commons/lib/units";
 import {
   BaseModel,
   CosmosdbModel,
   CosmosDecodingError,
+  CosmosDocumentIdKey,
+  CosmosErrorResponse,
   CosmosErrors,
   CosmosResource,
-  DocumentSearchKey
+  DocumentSearchKey,
+  IRetryPolicy,
+  ISchemaMigrationReport,
+  toCosmosErrorResponse
 } from "./cosmosdb_model";
+import {
+  asyncIterableToArray,
+  flattenAsyncIterable,
+  mapAsyncIterable
+} from "./async";
 
 /**
  * Maps the fields of a versioned
@@ -69,6 +90,141 @@ export const generateVersionedModelId = <T, ModelIdKey extends keyof T>(
 export const incVersion = (version: NonNegativeInteger): NonNegativeInteger =>
   (Number(version) + 1) as NonNegativeInteger;
 
+// The fields of a revision which are not part of the model itself
+const versionedModelMetaKeys: Record<keyof RetrievedVersionedModel, null> = {
+  _etag: null,
+  _rid: null,
+  _self: null,
+  _ts: null,
+  id: null,
+  version: null
+};
+
+/**
+ * The differences between two revisions of a document
+ */
+export interface IVersionsDiff {
+  readonly added: ReadonlyArray<{
+    readonly field: string;
+    readonly value: unknown;
+  }>;
+  readonly changed: ReadonlyArray<{
+    readonly field: string;
+    readonly from: unknown;
+    readonly to: unknown;
+  }>;
+  readonly removed: ReadonlyArray<{
+    readonly field: string;
+    readonly value: unknown;
+  }>;
+}
+
+/**
+ * Lists the fields added, changed or removed from a revision of a document
+ * to another one. Meta fields (id, version and the ones set by Cosmos) are
+ * not compared, while values are compared deeply.
+ *
+ * @param from the older revision
+ * @param to the newer revision
+ */
+export const diffVersions = <TR extends RetrievedVersionedModel>(
+  from: TR,
+  to: TR
+): IVersionsDiff => {
+  const fromRecord = from as Record<string, unknown>;
+  const toRecord = to as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(field => !(field in versionedModelMetaKeys))
+    .sort();
+  return {
+    added: fields
+      .filter(_ => fromRecord[_] === undefined && toRecord[_] !== undefined)
+      .map(field => ({ field, value: toRecord[field] })),
+    changed: fields
+      .filter(
+        _ =>
+          fromRecord[_] !== undefined &&
+          toRecord[_] !== undefined &&
+          !isDeepStrictEqual(fromRecord[_], toRecord[_])
+      )
+      .map(field => ({
+        field,
+        from: fromRecord[field],
+        to: toRecord[field]
+      })),
+    removed: fields
+      .filter(_ => fromRecord[_] !== undefined && toRecord[_] === undefined)
+      .map(field => ({ field, value: fromRecord[field] }))
+  };
+};
+
+/**
+ * Defines which revisions of a document must be kept.
+ *
+ * A revision is kept if it satisfies any of the provided criteria,
+ * while the latest revision is always kept. When no criteria is provided
+ * every revision is kept.
+ */
+export interface IRetentionPolicy {
+  // the number of latest revisions to keep
+  readonly keepLastVersions?: NonNegativeInteger;
+  // revisions updated within this duration are kept
+  readonly keepNewerThan?: Millisecond;
+}
+
+/**
+ * The fields of a revision needed to apply a retention policy
+ */
+const RevisionMetadata = t.interface({
+  _ts: t.number,
+  id: NonEmptyString,
+  version: NonNegativeInteger
+});
+type RevisionMetadata = t.TypeOf<typeof RevisionMetadata>;
+
+/**
+ * Returns the revisions of a document which are not kept
+ * by the provided retention policy.
+ *
+ * @param revisions every revision of a single document
+ * @param policy the retention policy
+ * @param now the time used to compute the age of the revisions
+ */
+export const getSupersededVersions = <R extends RevisionMetadata>(
+  revisions: ReadonlyArray<R>,
+  policy: IRetentionPolicy,
+  now: Date
+): ReadonlyArray<R> => {
+  if (
+    policy.keepLastVersions === undefined &&
+    policy.keepNewerThan === undefined
+  ) {
+    return [];
+  }
+  const latestFirst = [...revisions].sort((a, b) => b.version - a.version);
+  // _ts is expressed in seconds since epoch
+  const isKeptByAge = (revision: R): boolean =>
+    policy.keepNewerThan !== undefined &&
+    // eslint-disable-next-line no-underscore-dangle
+    now.getTime() - revision._ts * 1000 < policy.keepNewerThan;
+  return latestFirst.filter(
+    (revision, index) =>
+      index >= Math.max(1, policy.keepLastVersions || 0) &&
+      !isKeptByAge(revision)
+  );
+};
+
+/**
+ * The outcome of pruning the revisions of a partition
+ */
+export interface IPruneVersionsReport {
+  readonly dryRun: boolean;
+  // the ids of the revisions which were deleted, or would be on dry-run
+  readonly pruned: ReadonlyArray<NonEmptyString>;
+  // the number of revisions kept by the retention policy
+  readonly retained: number;
+}
+
 /**
  * Assumption: the model ID is also the partition key
  */
@@ -79,17 +235,20 @@ export abstract class CosmosdbModelVersioned<
   ModelIdKey extends keyof T,
   PartitionKey extends keyof T = ModelIdKey
 > extends CosmosdbModel<T, TN & BaseModel, TR, PartitionKey> {
+  // eslint-disable-next-line max-params
   constructor(
     container: Container,
     protected readonly newVersionedItemT: t.Type<TN, ItemDefinition, unknown>,
     protected readonly retrievedItemT: t.Type<TR, unknown, unknown>,
     protected readonly modelIdKey: ModelIdKey,
-    protected readonly partitionKey?: PartitionKey
+    protected readonly partitionKey?: PartitionKey,
+    retryPolicy?: IRetryPolicy
   ) {
     super(
       container,
       t.intersection([newVersionedItemT, BaseModel]),
-      retrievedItemT
+      retrievedItemT,
+      retryPolicy
     );
   }
 
@@ -187,6 +346,238 @@ export abstract class CosmosdbModelVersioned<
     });
   }
 
+  /**
+   * Get an iterator to process every revision of a document,
+   * ordered by version from the oldest to the latest.
+   *
+   * Pass the partitionKey field / values if it differs from the modelId
+   * to avoid multi-partition queries.
+   */
+  public findAllVersionsByModelId(
+    searchKey: DocumentSearchKey<T, ModelIdKey, PartitionKey>
+  ): AsyncIterable<ReadonlyArray<t.Validation<TR>>> {
+    const [modelId, partitionKey] = searchKey;
+    return this.getQueryIterator(
+      {
+        parameters: [
+          {
+            name: "@modelId",
+            value: modelId
+          }
+        ],
+        // Note: do not use ${collectionName} here as it may contain special characters
+        query: `SELECT * FROM m WHERE m.${this.modelIdKey} = @modelId ORDER BY m.version ASC`
+      },
+      {
+        partitionKey: partitionKey !== undefined ? partitionKey : modelId
+      }
+    );
+  }
+
+  /**
+   * Find a specific revision of a document.
+   *
+   * Pass the partitionKey field / values if it differs from the modelId
+   * to avoid multi-partition queries.
+   *
+   * @param searchKey the modelId and, if any, the partition key of the document
+   * @param version the version of the revision
+   */
+  public findVersion(
+    searchKey: DocumentSearchKey<T, ModelIdKey, PartitionKey>,
+    version: NonNegativeInteger
+  ): TaskEither<CosmosErrors, Option<TR>> {
+    const [modelId, partitionKey] = searchKey;
+    // revisions have a well-known id, so they can be read directly
+    return super.find(([
+      generateVersionedModelId<T, ModelIdKey>(modelId, version),
+      partitionKey !== undefined ? partitionKey : modelId
+    ] as unknown) as DocumentSearchKey<TR, CosmosDocumentIdKey, PartitionKey>);
+  }
+
+  /**
+   * Find the revision of a document which was the latest one
+   * at the provided point in time, according to the _ts of the revisions.
+   *
+   * Pass the partitionKey field / values if it differs from the modelId
+   * to avoid multi-partition queries.
+   *
+   * @param searchKey the modelId and, if any, the partition key of the document
+   * @param timestamp the point in time
+   */
+  public findVersionAt(
+    searchKey: DocumentSearchKey<T, ModelIdKey, PartitionKey>,
+    timestamp: Date
+  ): TaskEither<CosmosErrors, Option<TR>> {
+    const [modelId, partitionKey] = searchKey;
+    const q: SqlQuerySpec = {
+      parameters: [
+        {
+          name: "@modelId",
+          value: modelId
+        },
+        {
+          name: "@ts",
+          // _ts is expressed in seconds since epoch
+          value: Math.floor(timestamp.getTime() / 1000)
+        }
+      ],
+      // Note: do not use ${collectionName} here as it may contain special characters
+      query: `SELECT TOP 1 * FROM m WHERE m.${this.modelIdKey} = @modelId AND m._ts <= @ts ORDER BY m.version DESC`
+    };
+    return super.findOneByQuery(q, {
+      maxItemCount: 1,
+      partitionKey: partitionKey !== undefined ? partitionKey : modelId
+    });
+  }
+
+  /**
+   * Delete every revision of a document.
+   *
+   * Pass the partitionKey field / values if it differs from the modelId
+   * to avoid multi-partition queries.
+   *
+   * @returns the number of deleted revisions
+   */
+  public deleteAllVersions(
+    searchKey: DocumentSearchKey<T, ModelIdKey, PartitionKey>
+  ): TaskEither<CosmosErrors, number> {
+    const [modelId, partitionKey] = searchKey;
+    const partitionKeyValue =
+      partitionKey !== undefined ? partitionKey : modelId;
+    const q: SqlQuerySpec = {
+      parameters: [
+        {
+          name: "@modelId",
+          value: modelId
+        }
+      ],
+      // Note: do not use ${collectionName} here as it may contain special characters
+      query: `SELECT m.id FROM m WHERE m.${this.modelIdKey} = @modelId`
+    };
+    return tryCatch<CosmosErrors, ReadonlyArray<BaseModel>>(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            mapAsyncIterable(
+              this.container.items
+                .query<BaseModel>(q, { partitionKey: partitionKeyValue })
+                .getAsyncIterator(),
+              feedResponse => feedResponse.resources
+            )
+          )
+        ),
+      toCosmosErrorResponse
+    ).chain(revisions =>
+      this.deleteRevisions(
+        revisions.map(_ => _.id),
+        partitionKeyValue
+      )
+    );
+  }
+
+  /**
+   * Delete the revisions of the documents in a partition
+   * which are not kept by the provided retention policy.
+   *
+   * It's meant to be run periodically by a scheduled job, one partition
+   * at a time. On dry-run, the revisions to be deleted are only reported.
+   *
+   * @param partitionKeyValue the value of the partition key
+   * @param retentionPolicy defines which revisions must be kept
+   * @param dryRun whether to skip the deletion
+   * @param now the time used to compute the age of the revisions
+   */
+  public pruneVersions(
+    partitionKeyValue: T[PartitionKey],
+    retentionPolicy: IRetentionPolicy,
+    dryRun: boolean = false,
+    now: Date = new Date()
+  ): TaskEither<CosmosErrors, IPruneVersionsReport> {
+    const RevisionOfModel = t.intersection([
+      RevisionMetadata,
+      t.interface({ [this.modelIdKey]: t.unknown })
+    ]);
+    return tryCatch<CosmosErrors, ReadonlyArray<unknown>>(
+      () =>
+        asyncIterableToArray(
+          flattenAsyncIterable(
+            mapAsyncIterable(
+              this.container.items
+                .query(
+                  // Note: do not use ${collectionName} here as it may contain special characters
+                  `SELECT m.id, m.${this.modelIdKey}, m.version, m._ts FROM m`,
+                  { partitionKey: partitionKeyValue }
+                )
+                .getAsyncIterator(),
+              feedResponse => feedResponse.resources
+            )
+          )
+        ),
+      toCosmosErrorResponse
+    )
+      .chain(_ =>
+        fromEither(
+          t
+            .readonlyArray(RevisionOfModel)
+            .decode(_)
+            .mapLeft(CosmosDecodingError)
+        )
+      )
+      .map(revisions => {
+        // group revisions by the document they belong to
+        const revisionsByModelId = revisions.reduce((groups, revision) => {
+          const modelId = JSON.stringify(revision[String(this.modelIdKey)]);
+          return groups.set(modelId, [
+            ...(groups.get(modelId) || []),
+            revision
+          ]);
+        }, new Map<string, ReadonlyArray<RevisionMetadata>>());
+        const superseded = Array.from(revisionsByModelId.values()).reduce<
+          ReadonlyArray<NonEmptyString>
+        >(
+          (ids, group) => [
+            ...ids,
+            ...getSupersededVersions(group, retentionPolicy, now).map(r => r.id)
+          ],
+          []
+        );
+        return {
+          dryRun,
+          pruned: superseded,
+          retained: revisions.length - superseded.length
+        };
+      })
+      .chain(report =>
+        dryRun
+          ? fromEither<CosmosErrors, IPruneVersionsReport>(right(report))
+          : this.deleteRevisions(report.pruned, partitionKeyValue).map(
+              _ => report
+            )
+      );
+  }
+
+  /**
+   * Revisions are never rewritten in place: replacing a revision would
+   * change its _ts, which is the time the revision was saved at as used
+   * by findVersionAt and by the keepNewerThan retention policy.
+   *
+   * Revisions with an older schema are upgraded when read instead, hence
+   * the migration always fails: it must not be run on versioned models.
+   */
+  public migrateToLatestSchema(): TaskEither<
+    CosmosErrors,
+    ISchemaMigrationReport
+  > {
+    return fromLeft(
+      CosmosErrorResponse(
+        new Error(
+          "The revisions of a versioned model cannot be migrated in place"
+        )
+      )
+    );
+  }
+
   /**
    * Given a document, extract the tuple that define the search key for it
    *
@@ -245,6 +636,25 @@ export abstract class CosmosdbModelVersioned<
         .getOrElse(0 as NonNegativeInteger)
     );
 
+  /**
+   * Delete the provided revisions, one at a time to avoid throttling
+   *
+   * @returns the number of deleted revisions
+   */
+  private deleteRevisions(
+    ids: ReadonlyArray<string>,
+    partitionKeyValue: unknown
+  ): TaskEither<CosmosErrors, number> {
+    return array
+      .traverse(taskEitherSeq)([...ids], id =>
+        tryCatch<CosmosErrors, ItemResponse<ItemDefinition>>(
+          () => this.container.item(id, partitionKeyValue).delete(),
+          toCosmosErrorResponse
+        )
+      )
+      .map(_ => _.length);
+  }
+
   /**
    * Insert a document with a specific version
    *
@@ -274,18 +684,8 @@ export abstract class CosmosdbModelVersioned<
    * Strips off meta fields which are nor part of the base model definition
    */
   private toBaseType(o: TR): T {
-    // keys to remove
-    const removed: Record<keyof RetrievedVersionedModel, null> = {
-      _etag: null,
-      _rid: null,
-      _self: null,
-      _ts: null,
-      id: null,
-      version: null
-    };
-
     const skimmed: Omit<TR, keyof RetrievedVersionedModel> = Object.keys(
-      removed
+      versionedModelMetaKeys
     ).reduce(
       (p, k) => {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
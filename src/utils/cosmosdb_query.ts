@@ -0,0 +1,257 @@
+/**
+ * A type-safe builder of Cosmos SQL queries.
+ *
+ * Field names are constrained to the keys of the document type
+ * so that a query referring to an unknown field does not compile.
+ * Values are always provided as query parameters.
+ *
+ * Example:
+ * ```
+ * const query = queryFor(RetrievedMessage)
+ *   .where(({ and, eq }) =>
+ *     and(eq("fiscalCode", fiscalCode), eq("isPending", false))
+ *   )
+ *   .orderBy("indexedId", "DESC")
+ *   .top(10)
+ *   .build();
+ * ```
+ */
+import * as t from "io-ts";
+
+import { SqlParameter, SqlQuerySpec } from "@azure/cosmos";
+
+// Alias of the documents in the FROM clause
+const DOCUMENT_ALIAS = "m";
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type SortDirection = "ASC" | "DESC";
+
+// The names of the fields of T which can be referred in a query
+export type QueryField<T> = keyof T & string;
+
+/**
+ * A condition of a WHERE clause on documents of type T
+ */
+export type QueryCondition<T> =
+  | {
+      readonly kind: "COMPARISON";
+      readonly field: QueryField<T>;
+      readonly operator: ComparisonOperator;
+      readonly value: unknown;
+    }
+  | {
+      readonly kind: "IN";
+      readonly field: QueryField<T>;
+      readonly values: ReadonlyArray<unknown>;
+    }
+  | {
+      readonly kind: "IS_DEFINED";
+      readonly field: QueryField<T>;
+    }
+  | {
+      readonly kind: "NOT";
+      readonly condition: QueryCondition<T>;
+    }
+  | {
+      readonly kind: "AND" | "OR";
+      readonly conditions: ReadonlyArray<QueryCondition<T>>;
+    };
+
+/**
+ * Functions to compose the conditions of a WHERE clause
+ */
+export interface IQueryConditions<T> {
+  readonly and: (
+    ...conditions: ReadonlyArray<QueryCondition<T>>
+  ) => QueryCondition<T>;
+  readonly compare: <K extends QueryField<T>>(
+    field: K,
+    operator: ComparisonOperator,
+    value: T[K]
+  ) => QueryCondition<T>;
+  readonly eq: <K extends QueryField<T>>(
+    field: K,
+    value: T[K]
+  ) => QueryCondition<T>;
+  // true when the document has the field, even if it's null
+  readonly isDefined: (field: QueryField<T>) => QueryCondition<T>;
+  readonly isIn: <K extends QueryField<T>>(
+    field: K,
+    values: ReadonlyArray<T[K]>
+  ) => QueryCondition<T>;
+  readonly not: (condition: QueryCondition<T>) => QueryCondition<T>;
+  readonly or: (
+    ...conditions: ReadonlyArray<QueryCondition<T>>
+  ) => QueryCondition<T>;
+}
+
+const getQueryConditions = <T>(): IQueryConditions<T> => ({
+  and: (...conditions): QueryCondition<T> => ({ conditions, kind: "AND" }),
+  compare: (field, operator, value): QueryCondition<T> => ({
+    field,
+    kind: "COMPARISON",
+    operator,
+    value
+  }),
+  eq: (field, value): QueryCondition<T> => ({
+    field,
+    kind: "COMPARISON",
+    operator: "=",
+    value
+  }),
+  isDefined: (field): QueryCondition<T> => ({ field, kind: "IS_DEFINED" }),
+  isIn: (field, values): QueryCondition<T> => ({
+    field,
+    kind: "IN",
+    values
+  }),
+  not: (condition): QueryCondition<T> => ({ condition, kind: "NOT" }),
+  or: (...conditions): QueryCondition<T> => ({ conditions, kind: "OR" })
+});
+
+/**
+ * The state of a query being built
+ */
+interface IQueryDefinition<T> {
+  readonly condition?: QueryCondition<T>;
+  readonly orderBy: ReadonlyArray<readonly [QueryField<T>, SortDirection]>;
+  readonly projection?: ReadonlyArray<QueryField<T>>;
+  readonly top?: number;
+}
+
+/**
+ * An immutable query builder: every method returns a new builder
+ */
+export interface IQueryBuilder<T> {
+  // the SqlQuerySpec for the query built so far
+  readonly build: () => SqlQuerySpec;
+  // adds a sort criteria, following the ones already set
+  readonly orderBy: (
+    field: QueryField<T>,
+    direction?: SortDirection
+  ) => IQueryBuilder<T>;
+  // restricts the returned fields to the provided ones; note that a projected
+  // query must be run on the container itself, since the query methods of
+  // a model decode the results as whole documents and would fail
+  readonly select: (fields: ReadonlyArray<QueryField<T>>) => IQueryBuilder<T>;
+  // limits the number of returned documents
+  readonly top: (n: number) => IQueryBuilder<T>;
+  // adds a condition, in AND with the ones already set
+  readonly where: (
+    condition: (conditions: IQueryConditions<T>) => QueryCondition<T>
+  ) => IQueryBuilder<T>;
+}
+
+const fieldRef = (field: string): string => `${DOCUMENT_ALIAS}.${field}`;
+
+/**
+ * Pushes a value into the provided parameters, returning its reference
+ */
+const addParameter = (
+  // eslint-disable-next-line functional/prefer-readonly-type
+  parameters: SqlParameter[],
+  value: unknown
+): string => {
+  const name = `@p${parameters.length}`;
+  // dates are stored as ISO strings, hence they're compared as such
+  const sqlValue = value instanceof Date ? value.toISOString() : value;
+  // eslint-disable-next-line functional/immutable-data
+  parameters.push({ name, value: sqlValue as SqlParameter["value"] });
+  return name;
+};
+
+/**
+ * Renders a condition, pushing its values into the provided parameters
+ */
+const renderCondition = <T>(
+  condition: QueryCondition<T>,
+  // eslint-disable-next-line functional/prefer-readonly-type
+  parameters: SqlParameter[]
+): string => {
+  switch (condition.kind) {
+    case "COMPARISON":
+      return `${fieldRef(condition.field)} ${condition.operator} ${addParameter(
+        parameters,
+        condition.value
+      )}`;
+    case "IN":
+      return condition.values.length === 0
+        ? "false"
+        : `${fieldRef(condition.field)} IN (${condition.values
+            .map(value => addParameter(parameters, value))
+            .join(", ")})`;
+    case "IS_DEFINED":
+      return `IS_DEFINED(${fieldRef(condition.field)})`;
+    case "NOT":
+      return `NOT (${renderCondition(condition.condition, parameters)})`;
+    case "AND":
+    case "OR":
+      return condition.conditions.length === 0
+        ? String(condition.kind === "AND")
+        : `(${condition.conditions
+            .map(_ => renderCondition(_, parameters))
+            .join(` ${condition.kind} `)})`;
+    default:
+      throw new Error("Unknown query condition");
+  }
+};
+
+const buildQuery = <T>(definition: IQueryDefinition<T>): SqlQuerySpec => {
+  // eslint-disable-next-line functional/prefer-readonly-type
+  const parameters: SqlParameter[] = [];
+  const where =
+    definition.condition !== undefined
+      ? ` WHERE ${renderCondition(definition.condition, parameters)}`
+      : "";
+  const top =
+    definition.top !== undefined
+      ? `TOP ${addParameter(parameters, definition.top)} `
+      : "";
+  const projection =
+    definition.projection !== undefined && definition.projection.length > 0
+      ? definition.projection.map(fieldRef).join(", ")
+      : "*";
+  const orderBy =
+    definition.orderBy.length > 0
+      ? ` ORDER BY ${definition.orderBy
+          .map(([field, direction]) => `${fieldRef(field)} ${direction}`)
+          .join(", ")}`
+      : "";
+  return {
+    parameters,
+    query: `SELECT ${top}${projection} FROM ${DOCUMENT_ALIAS}${where}${orderBy}`
+  };
+};
+
+const getQueryBuilder = <T>(
+  definition: IQueryDefinition<T>
+): IQueryBuilder<T> => ({
+  build: (): SqlQuerySpec => buildQuery(definition),
+  orderBy: (field, direction = "ASC"): IQueryBuilder<T> =>
+    getQueryBuilder({
+      ...definition,
+      orderBy: [...definition.orderBy, [field, direction] as const]
+    }),
+  select: (fields): IQueryBuilder<T> =>
+    getQueryBuilder({ ...definition, projection: fields }),
+  top: (n): IQueryBuilder<T> => getQueryBuilder({ ...definition, top: n }),
+  where: (f): IQueryBuilder<T> => {
+    const condition = f(getQueryConditions<T>());
+    return getQueryBuilder({
+      ...definition,
+      condition:
+        definition.condition !== undefined
+          ? { conditions: [definition.condition, condition], kind: "AND" }
+          : condition
+    });
+  }
+});
+
+/**
+ * Returns a query builder for the documents described by the provided codec
+ *
+ * @param _ the io-ts codec of the documents, used to infer their type
+ */
+export const queryFor = <T>(_: t.Type<T, unknown, unknown>): IQueryBuilder<T> =>
+  getQueryBuilder<T>({ orderBy: [] });
@@ -0,0 +1,232 @@
+/**
+ * Envelope encryption of payloads at rest.
+ *
+ * Every payload is encrypted with AES-256-GCM using a random data key,
+ * which is stored along with the payload after being encrypted (wrapped)
+ * with a master key. Master keys are handled by a pluggable key provider
+ * (ie. a key vault) and are referred by their id: rotating the master key
+ * just needs the data key of the payloads to be wrapped with the new one.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+import * as t from "io-ts";
+
+import { toError, tryCatch2v } from "fp-ts/lib/Either";
+import {
+  fromEither,
+  fromLeft,
+  TaskEither,
+  taskEither
+} from "fp-ts/lib/TaskEither";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Provides the master keys used to wrap the data keys
+ */
+export interface IKeyProvider {
+  // the id of the master key used to encrypt new payloads
+  readonly currentKeyId: NonEmptyString;
+  readonly unwrapKey: (
+    keyId: NonEmptyString,
+    wrappedKey: Buffer
+  ) => TaskEither<Error, Buffer>;
+  readonly wrapKey: (
+    keyId: NonEmptyString,
+    key: Buffer
+  ) => TaskEither<Error, Buffer>;
+}
+
+/**
+ * An encrypted payload, binary fields are base64 encoded
+ */
+export const EncryptedPayload = t.interface({
+  algorithm: t.literal("AES-256-GCM"),
+  authTag: t.string,
+  ciphertext: t.string,
+  iv: t.string,
+  // the id of the master key that wraps the data key
+  keyId: NonEmptyString,
+  wrappedKey: t.string
+});
+
+export type EncryptedPayload = t.TypeOf<typeof EncryptedPayload>;
+
+/**
+ * Encrypts a buffer with AES-256-GCM, authenticating the optional
+ * associated data along with it, returning the concatenation of iv,
+ * authentication tag and ciphertext
+ */
+const seal = (
+  key: Buffer,
+  plaintext: Buffer,
+  associatedData?: Buffer
+): Buffer => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv, {
+    authTagLength: AUTH_TAG_LENGTH
+  });
+  if (associatedData !== undefined) {
+    cipher.setAAD(associatedData);
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+/**
+ * Decrypts a buffer returned by seal, throws if it has been tampered with,
+ * the key is wrong or it has been sealed with other associated data
+ */
+const unseal = (
+  key: Buffer,
+  sealed: Buffer,
+  associatedData?: Buffer
+): Buffer => {
+  const decipher = createDecipheriv(
+    CIPHER_ALGORITHM,
+    key,
+    sealed.slice(0, IV_LENGTH),
+    { authTagLength: AUTH_TAG_LENGTH }
+  );
+  decipher.setAuthTag(sealed.slice(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+  if (associatedData !== undefined) {
+    decipher.setAAD(associatedData);
+  }
+  return Buffer.concat([
+    decipher.update(sealed.slice(IV_LENGTH + AUTH_TAG_LENGTH)),
+    decipher.final()
+  ]);
+};
+
+/**
+ * A key provider that keeps the master keys in memory,
+ * ie. when they are read from the application settings.
+ *
+ * @param keys the 256 bits master keys by id
+ * @param currentKeyId the id of the key used to encrypt new payloads
+ */
+export const getInMemoryKeyProvider = (
+  keys: ReadonlyMap<NonEmptyString, Buffer>,
+  currentKeyId: NonEmptyString
+): IKeyProvider => {
+  const withKey = (
+    keyId: NonEmptyString,
+    f: (masterKey: Buffer) => Buffer
+  ): TaskEither<Error, Buffer> => {
+    const masterKey = keys.get(keyId);
+    return masterKey === undefined
+      ? fromLeft(new Error(`Unknown encryption key: ${keyId}`))
+      : fromEither(tryCatch2v(() => f(masterKey), toError));
+  };
+  return {
+    currentKeyId,
+    unwrapKey: (keyId, wrappedKey): TaskEither<Error, Buffer> =>
+      withKey(keyId, masterKey => unseal(masterKey, wrappedKey)),
+    wrapKey: (keyId, key): TaskEither<Error, Buffer> =>
+      withKey(keyId, masterKey => seal(masterKey, key))
+  };
+};
+
+/**
+ * Encrypts a payload with a new data key, wrapped with the current
+ * master key, binding it to the provided associated data (ie. the id of
+ * the message it belongs to): the payload can be decrypted only along
+ * with the same associated data, so it cannot be swapped with another one.
+ */
+export const encryptPayload = (
+  keyProvider: IKeyProvider,
+  plaintext: string,
+  associatedData: string
+): TaskEither<Error, EncryptedPayload> => {
+  const dataKey = randomBytes(KEY_LENGTH);
+  const keyId = keyProvider.currentKeyId;
+  return keyProvider.wrapKey(keyId, dataKey).chain(wrappedKey =>
+    fromEither(
+      tryCatch2v(() => {
+        const sealed = seal(
+          dataKey,
+          Buffer.from(plaintext, "utf8"),
+          Buffer.from(associatedData, "utf8")
+        );
+        return {
+          algorithm: "AES-256-GCM" as const,
+          authTag: sealed
+            .slice(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH)
+            .toString("base64"),
+          ciphertext: sealed
+            .slice(IV_LENGTH + AUTH_TAG_LENGTH)
+            .toString("base64"),
+          iv: sealed.slice(0, IV_LENGTH).toString("base64"),
+          keyId,
+          wrappedKey: wrappedKey.toString("base64")
+        };
+      }, toError)
+    )
+  );
+};
+
+/**
+ * Decrypts a payload, failing if it has been tampered with
+ * or it has been encrypted with other associated data
+ *
+ * @see encryptPayload
+ */
+export const decryptPayload = (
+  keyProvider: IKeyProvider,
+  payload: EncryptedPayload,
+  associatedData: string
+): TaskEither<Error, string> => {
+  const iv = Buffer.from(payload.iv, "base64");
+  const authTag = Buffer.from(payload.authTag, "base64");
+  // a shorter tag would be accepted by the decipher, weakening the
+  // authentication, while any other length would misplace the ciphertext
+  return iv.length !== IV_LENGTH || authTag.length !== AUTH_TAG_LENGTH
+    ? fromLeft(new Error("Cannot decrypt the payload"))
+    : keyProvider
+        .unwrapKey(payload.keyId, Buffer.from(payload.wrappedKey, "base64"))
+        .chain(dataKey =>
+          fromEither(
+            tryCatch2v(
+              () =>
+                unseal(
+                  dataKey,
+                  Buffer.concat([
+                    iv,
+                    authTag,
+                    Buffer.from(payload.ciphertext, "base64")
+                  ]),
+                  Buffer.from(associatedData, "utf8")
+                ).toString("utf8"),
+              () => new Error("Cannot decrypt the payload")
+            )
+          )
+        );
+};
+
+/**
+ * Wraps the data key of a payload with the current master key,
+ * leaving the encrypted content untouched.
+ *
+ * @returns the payload itself if it's already wrapped with the current key
+ */
+export const rewrapPayload = (
+  keyProvider: IKeyProvider,
+  payload: EncryptedPayload
+): TaskEither<Error, EncryptedPayload> =>
+  payload.keyId === keyProvider.currentKeyId
+    ? taskEither.of(payload)
+    : keyProvider
+        .unwrapKey(payload.keyId, Buffer.from(payload.wrappedKey, "base64"))
+        .chain(dataKey =>
+          keyProvider.wrapKey(keyProvider.currentKeyId, dataKey)
+        )
+        .map(wrappedKey => ({
+          ...payload,
+          keyId: keyProvider.currentKeyId,
+          wrappedKey: wrappedKey.toString("base64")
+        }));
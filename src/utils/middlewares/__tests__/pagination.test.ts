@@ -0,0 +1,54 @@
+// eslint-disable @typescript-eslint/no-explicit-any
+
+import { isLeft, isRight } from "fp-ts/lib/Either";
+
+import { encodeCursor } from "../../pagination";
+import { PaginationMiddleware } from "../pagination";
+
+const middleware = PaginationMiddleware(10, 100);
+
+describe("PaginationMiddleware", () => {
+  it("should use the default page size and no continuation token if parameters are missing", async () => {
+    const result = await middleware({
+      query: {}
+    } as any);
+
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value.pageSize).toBe(10);
+      expect(result.value.continuationToken.isNone()).toBeTruthy();
+    }
+  });
+
+  it("should extract the page size and the continuation token", async () => {
+    const result = await middleware({
+      query: {
+        cursor: encodeCursor("aContinuationToken"),
+        page_size: "50"
+      }
+    } as any);
+
+    expect(isRight(result)).toBeTruthy();
+    if (isRight(result)) {
+      expect(result.value.pageSize).toBe(50);
+      expect(result.value.continuationToken.toUndefined()).toBe(
+        "aContinuationToken"
+      );
+    }
+  });
+
+  it.each`
+    title                         | query
+    ${"a page size out of range"} | ${{ page_size: "101" }}
+    ${"a zero page size"}         | ${{ page_size: "0" }}
+    ${"a non numeric page size"}  | ${{ page_size: "ten" }}
+    ${"an invalid cursor"}        | ${{ cursor: "not a cursor!" }}
+  `("should respond with a validation error for $title", async ({ query }) => {
+    const result = await middleware({ query } as any);
+
+    expect(isLeft(result)).toBeTruthy();
+    if (isLeft(result)) {
+      expect(result.value.kind).toBe("IResponseErrorValidation");
+    }
+  });
+});
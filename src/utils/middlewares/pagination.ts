@@ -0,0 +1,63 @@
+import { Either, right } from "fp-ts/lib/Either";
+import { fromNullable, none, Option, some } from "fp-ts/lib/Option";
+
+import {
+  IntegerFromString,
+  WithinRangeInteger
+} from "@pagopa/ts-commons/lib/numbers";
+import {
+  IResponse,
+  ResponseErrorFromValidationErrors
+} from "@pagopa/ts-commons/lib/responses";
+import { ContinuationTokenFromCursor } from "../pagination";
+import { IRequestMiddleware } from "../request_middleware";
+
+/**
+ * The pagination parameters of a request
+ */
+export interface IPaginationParams {
+  // the token to continue a query from, none to get the first page
+  readonly continuationToken: Option<string>;
+  readonly pageSize: number;
+}
+
+/**
+ * Returns a request middleware that extracts the pagination parameters
+ * from the `cursor` and `page_size` query parameters, both optional.
+ *
+ * @param defaultPageSize the page size used when page_size is missing
+ * @param maxPageSize the maximum allowed value for page_size
+ */
+export const PaginationMiddleware = (
+  defaultPageSize: number,
+  maxPageSize: number
+): IRequestMiddleware<"IResponseErrorValidation", IPaginationParams> => {
+  const PageSize = IntegerFromString.pipe(
+    WithinRangeInteger(1, maxPageSize + 1),
+    "PageSize"
+  );
+  return async (
+    request
+  ): Promise<
+    Either<IResponse<"IResponseErrorValidation">, IPaginationParams>
+  > =>
+    fromNullable(request.query.page_size)
+      .map(pageSize =>
+        PageSize.decode(pageSize).bimap(
+          ResponseErrorFromValidationErrors(PageSize),
+          Number
+        )
+      )
+      .getOrElse(right(defaultPageSize))
+      .chain(pageSize =>
+        fromNullable(request.query.cursor)
+          .map(cursor =>
+            ContinuationTokenFromCursor.decode(cursor).bimap(
+              ResponseErrorFromValidationErrors(ContinuationTokenFromCursor),
+              some
+            )
+          )
+          .getOrElse(right(none))
+          .map(continuationToken => ({ continuationToken, pageSize }))
+      );
+};
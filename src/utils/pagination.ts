@@ -0,0 +1,62 @@
+/**
+ * Utilities to paginate the results of a query by an opaque cursor.
+ *
+ * A cursor wraps the continuation token returned by Cosmos for a page,
+ * encoded as url-safe base64 so it can be used as a query parameter.
+ */
+import { URL } from "url";
+
+import * as t from "io-ts";
+
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+/**
+ * Returns the cursor that wraps a continuation token
+ *
+ * @param continuationToken the continuation token returned by Cosmos
+ */
+export const encodeCursor = (continuationToken: string): NonEmptyString =>
+  Buffer.from(continuationToken)
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "") as NonEmptyString;
+
+/**
+ * Decodes a cursor into the continuation token it wraps.
+ * Values which are not produced by encodeCursor are rejected.
+ */
+export const ContinuationTokenFromCursor = new t.Type<string, string, unknown>(
+  "ContinuationTokenFromCursor",
+  t.string.is,
+  (u, c) =>
+    NonEmptyString.validate(u, c).chain(cursor => {
+      // the base64 decoder accepts the url-safe alphabet as well
+      const continuationToken = Buffer.from(cursor, "base64").toString();
+      return continuationToken.length > 0 &&
+        encodeCursor(continuationToken) === cursor
+        ? t.success(continuationToken)
+        : t.failure(u, c);
+    }),
+  encodeCursor
+);
+
+/**
+ * Returns the url to GET the page following the current one,
+ * as the `next` field of a PaginationResponse: that is, the url of the
+ * current request with the cursor of the next page and the page size.
+ *
+ * @param requestUrl the absolute url of the current request
+ * @param continuationToken the continuation token of the next page
+ * @param pageSize the requested page size
+ */
+export const getNextPageUrl = (
+  requestUrl: string,
+  continuationToken: string,
+  pageSize: number
+): string => {
+  const url = new URL(requestUrl);
+  url.searchParams.set("cursor", encodeCursor(continuationToken));
+  url.searchParams.set("page_size", String(pageSize));
+  return url.toString();
+};
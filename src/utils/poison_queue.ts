@@ -0,0 +1,223 @@
+/**
+ * Dead-lettering of the queue messages that cannot be processed.
+ *
+ * A failed payload is sent to the poison queue of its queue wrapped in a
+ * DeadLetter, along with the RuntimeError that made it fail, so that it can
+ * be inspected and selectively sent back to its queue once the cause
+ * has been fixed.
+ */
+import * as azureStorage from "azure-storage";
+
+import * as t from "io-ts";
+
+import { Either, isRight } from "fp-ts/lib/Either";
+import { none, Option, some } from "fp-ts/lib/Option";
+import { TaskEither, taskEitherSeq } from "fp-ts/lib/TaskEither";
+import { array } from "fp-ts/lib/Array";
+
+import { NonNegativeInteger } from "@pagopa/ts-commons/lib/numbers";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+import { enumType } from "@pagopa/ts-commons/lib/types";
+
+import { Timestamp } from "../../generated/definitions/Timestamp";
+import { fromPromiseEither } from "./async";
+import {
+  deleteQueueMessage,
+  dequeue,
+  enqueue,
+  IEnqueueOptions,
+  IQueueMessage,
+  peek,
+  updateQueueMessageVisibility
+} from "./azure_storage";
+import { ErrorTypes, RuntimeError } from "./errors";
+
+// Suffix of the poison queue of a queue, as named by Azure Functions
+const POISON_QUEUE_SUFFIX = "-poison";
+
+export const getPoisonQueueName = (queueName: string): string =>
+  `${queueName}${POISON_QUEUE_SUFFIX}`;
+
+/**
+ * A payload that failed to be processed
+ */
+export const DeadLetter = t.intersection(
+  [
+    t.interface({
+      // how many times the processing of the payload has been attempted
+      attempts: NonNegativeInteger,
+
+      errorKind: enumType<ErrorTypes>(ErrorTypes, "ErrorTypes"),
+
+      errorMessage: t.string,
+
+      // when the last attempt failed
+      failedAt: Timestamp,
+
+      // the payload as it was read from the queue: since it may be the
+      // cause of the failure, it's decoded only when needed
+      payload: t.unknown,
+
+      // the queue the payload has been read from
+      queueName: NonEmptyString
+    }),
+    t.partial({
+      // when the payload was first enqueued
+      insertedAt: Timestamp
+    })
+  ],
+  "DeadLetter"
+);
+
+export type DeadLetter = t.TypeOf<typeof DeadLetter>;
+
+/**
+ * Wraps a failed payload with the error that made it fail
+ *
+ * @param queueName the queue the payload has been read from
+ * @param message the message the payload has been read from
+ * @param error the error that made the processing fail
+ * @param now the time of the failure
+ */
+export const toDeadLetter = (
+  queueName: NonEmptyString,
+  message: Pick<IQueueMessage<unknown>, "dequeueCount" | "insertedAt"> & {
+    readonly payload: unknown;
+  },
+  error: RuntimeError,
+  now: Date = new Date()
+): DeadLetter => ({
+  attempts: message.dequeueCount as NonNegativeInteger,
+  errorKind: error.kind,
+  errorMessage: error.message,
+  failedAt: now,
+  insertedAt: message.insertedAt,
+  payload: message.payload,
+  queueName
+});
+
+/**
+ * Sends a dead letter to the poison queue of its queue
+ */
+export const sendToPoisonQueue = (
+  queueService: azureStorage.QueueService,
+  deadLetter: DeadLetter,
+  options: IEnqueueOptions = {}
+): TaskEither<Error, DeadLetter> =>
+  fromPromiseEither(() =>
+    enqueue(
+      DeadLetter,
+      queueService,
+      getPoisonQueueName(deadLetter.queueName),
+      deadLetter,
+      options
+    )
+  ).map(() => deadLetter);
+
+/**
+ * Lists up to numOfMessages dead letters of a queue, without dequeuing them.
+ *
+ * Messages moved to the poison queue by the Azure Functions runtime
+ * are not wrapped in a DeadLetter, hence they're returned with a left payload.
+ */
+export const listDeadLetters = (
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  numOfMessages: number = 32
+): TaskEither<Error, ReadonlyArray<IQueueMessage<DeadLetter>>> =>
+  fromPromiseEither(() =>
+    peek(DeadLetter, queueService, getPoisonQueueName(queueName), {
+      numOfMessages
+    })
+  );
+
+/**
+ * Decodes the payload wrapped in a dead letter
+ */
+export const decodeDeadLetterPayload = <A, O>(
+  type: t.Type<A, O, unknown>,
+  deadLetter: DeadLetter
+): t.Validation<A> => type.decode(deadLetter.payload);
+
+/**
+ * Decodes a message of a poison queue: either a dead letter wrapping
+ * a payload, or a raw payload moved to the poison queue by the
+ * Azure Functions runtime, which has no dead letter
+ */
+const decodePoisonMessage = <A, O>(
+  type: t.Type<A, O, unknown>,
+  message: unknown
+): Either<
+  Error,
+  { readonly deadLetter: Option<DeadLetter>; readonly payload: A }
+> =>
+  DeadLetter.decode(message)
+    .fold(
+      () =>
+        type.decode(message).map(payload => ({ deadLetter: none, payload })),
+      deadLetter =>
+        decodeDeadLetterPayload(type, deadLetter).map(payload => ({
+          deadLetter: some(deadLetter),
+          payload
+        }))
+    )
+    .mapLeft(() => new Error("Invalid payload"));
+
+/**
+ * Sends back to their queue the payloads of a poison queue which are
+ * valid and satisfy the provided predicate, ie. the ones that failed
+ * with a TransientError. The predicate gets no dead letter for the raw
+ * payloads moved to the poison queue by the Azure Functions runtime,
+ * since the error that made them fail is unknown.
+ *
+ * Every selected message is deleted from the poison queue after its
+ * payload has been enqueued, while the other ones are made visible
+ * again in the poison queue at once.
+ *
+ * @param type the io-ts type of the payloads of the queue
+ * @param queueService the Azure queue service
+ * @param queueName the name of the queue
+ * @param predicate selects the payloads to be sent back
+ * @param options how many messages to read
+ *
+ * @returns the number of payloads sent back to the queue
+ */
+export const requeueDeadLetters = <A, O>(
+  type: t.Type<A, O, unknown>,
+  queueService: azureStorage.QueueService,
+  queueName: string,
+  predicate: (deadLetter: Option<DeadLetter>, payload: A) => boolean,
+  options: azureStorage.QueueService.GetMessagesRequestOptions = {}
+): TaskEither<Error, number> => {
+  const poisonQueueName = getPoisonQueueName(queueName);
+  return fromPromiseEither(() =>
+    dequeue(t.unknown, queueService, poisonQueueName, options)
+  ).chain(messages =>
+    array
+      .traverse(taskEitherSeq)([...messages], message => {
+        const maybePayload = message.payload.chain(_ =>
+          decodePoisonMessage(type, _)
+        );
+        return isRight(maybePayload) &&
+          predicate(maybePayload.value.deadLetter, maybePayload.value.payload)
+          ? fromPromiseEither(() =>
+              enqueue(type, queueService, queueName, maybePayload.value.payload)
+            )
+              .chain(() =>
+                fromPromiseEither(() =>
+                  deleteQueueMessage(queueService, poisonQueueName, message)
+                )
+              )
+              .map(() => 1)
+          : fromPromiseEither(() =>
+              updateQueueMessageVisibility(
+                queueService,
+                poisonQueueName,
+                message,
+                0
+              )
+            ).map(() => 0);
+      })
+      .map(requeued => requeued.reduce((sum, _) => sum + _, 0))
+  );
+};
@@ -1,11 +1,22 @@
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
 import {
   HttpStatusCodeEnum,
   IResponse,
-  ResponseErrorGeneric
+  IResponseErrorConflict,
+  IResponseErrorInternal,
+  IResponseErrorNotFound,
+  IResponseErrorTooManyRequests,
+  ResponseErrorConflict,
+  ResponseErrorGeneric,
+  ResponseErrorInternal,
+  ResponseErrorNotFound,
+  ResponseErrorTooManyRequests
 } from "@pagopa/ts-commons/lib/responses";
 import * as express from "express";
+import { none, Option, some } from "fp-ts/lib/Option";
 import { asyncIteratorToArray } from "./async";
-import { CosmosErrors } from "./cosmosdb_model";
+import { CosmosErrors, IPage, toCosmosErrorResponse } from "./cosmosdb_model";
+import { getNextPageUrl } from "./pagination";
 
 /**
  * Interface for a successful response returning a json object.
@@ -21,9 +32,8 @@ export interface IResponseSuccessJsonIterator<T>
 /**
  * A response that consumes and return the Cosmosdb iterator as a json array
  * or an error in case of any failure occurs querying the database.
- *
- * TODO: pagination
- * TODO: make it stream the iterator instead of consumind it all at once
+ * Note that the iterator is consumed all at once: see ResponseJsonPageIterator
+ * for a paginated response and ResponseJsonStreamIterator for a streamed one.
  */
 // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
 export function ResponseJsonIterator<T>(
@@ -46,6 +56,195 @@ export function ResponseJsonIterator<T>(
   };
 }
 
+/**
+ * Interface for a successful response returning a page of json objects.
+ */
+export interface IResponseSuccessJsonPageIterator<T>
+  extends IResponse<"IResponseSuccessJsonPageIterator"> {
+  readonly value: T; // needed to discriminate from other T subtypes
+  readonly apply: (response: express.Response) => Promise<express.Response>;
+}
+
+/**
+ * A response that returns the next page provided by the iterator as a json
+ * object shaped as a PaginationResponse: the page items, the requested
+ * page size and the url to get the following page, if any.
+ *
+ * The iterator is expected to be provided by getPaginatedQueryIterator
+ * (mapped to the actual items) with the page size as maxItemCount.
+ *
+ * @param i the iterator of the pages
+ * @param pageSize the requested page size, ie. from PaginationMiddleware
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ResponseJsonPageIterator<T>(
+  i: AsyncIterator<IPage<T>>,
+  pageSize: number
+): IResponseSuccessJsonPageIterator<T> {
+  return {
+    // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+    apply: res =>
+      i.next().then(result => {
+        const { items, continuationToken }: IPage<T> =
+          result.done === true
+            ? { continuationToken: none, items: [] }
+            : result.value;
+        const kindlessItems = items.map(d =>
+          Object.assign(Object.assign({}, d), { kind: undefined })
+        );
+        const requestUrl = `${res.req.protocol}://${res.req.get("host")}${
+          res.req.originalUrl
+        }`;
+        return res.status(200).json({
+          items: kindlessItems,
+          next: continuationToken
+            .map(token => getNextPageUrl(requestUrl, token, pageSize))
+            .toUndefined(),
+          page_size: pageSize
+        });
+      }),
+    kind: "IResponseSuccessJsonPageIterator",
+    value: {} as T
+  };
+}
+
+/**
+ * Interface for a successful response streaming a collection of json objects.
+ */
+export interface IResponseSuccessJsonStreamIterator<T>
+  extends IResponse<"IResponseSuccessJsonStreamIterator"> {
+  readonly value: T; // needed to discriminate from other T subtypes
+  readonly apply: (response: express.Response) => Promise<express.Response>;
+}
+
+/**
+ * Returns a description of a database error
+ */
+const describeCosmosError = (error: CosmosErrors): string =>
+  `Query error (${error.kind})$` +
+  (error.kind === "COSMOS_ERROR_RESPONSE"
+    ? ` (${error.error.code}/${error.error.message})`
+    : "");
+
+/**
+ * Tells whether the response can no longer be written, i.e. the client
+ * disconnected (the close event may have been emitted already) or the
+ * response has been ended.
+ */
+const isResponseClosed = (res: express.Response): boolean => {
+  const { destroyed, writableEnded } = res as express.Response & {
+    readonly destroyed?: boolean;
+    readonly writableEnded?: boolean;
+  };
+  return destroyed === true || writableEnded === true;
+};
+
+/**
+ * Writes a chunk of the response body, waiting for the written data
+ * to be flushed if the buffer is full (or the client disconnects).
+ *
+ * Nothing is written if the response is already closed.
+ */
+const writeChunk = (res: express.Response, chunk: string): Promise<void> =>
+  new Promise(resolve => {
+    if (isResponseClosed(res) || res.write(chunk)) {
+      return resolve();
+    }
+    // whichever event comes first, the listener of the other one is removed
+    const onDrainOrClose = (): void => {
+      res.removeListener("drain", onDrainOrClose);
+      res.removeListener("close", onDrainOrClose);
+      resolve();
+    };
+    res.once("drain", onDrainOrClose);
+    res.once("close", onDrainOrClose);
+  });
+
+/**
+ * A response that streams the pages provided by the Cosmosdb iterator
+ * as a json object, writing the items as soon as each page is retrieved.
+ *
+ * The response body has the same shape of ResponseJsonIterator:
+ *
+ * `{"items":[...],"page_size":N}`
+ *
+ * As the status code is sent along with the first chunk, an error occurring
+ * while querying the database is reported as an `error` field following
+ * the items retrieved so far:
+ *
+ * `{"items":[...],"page_size":N,"error":{"detail":"...","kind":"COSMOS_ERROR_RESPONSE"}}`
+ *
+ * The iteration stops if the client disconnects before the end of the stream.
+ */
+// eslint-disable-next-line prefer-arrow/prefer-arrow-functions
+export function ResponseJsonStreamIterator<T>(
+  i: AsyncIterator<ReadonlyArray<T>>
+): IResponseSuccessJsonStreamIterator<T> {
+  return {
+    // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+    apply: async res => {
+      /* eslint-disable functional/no-let */
+      // the client may have disconnected before the response is applied
+      let isDisconnected = isResponseClosed(res);
+      let count = 0;
+      let maybeError: Option<CosmosErrors> = none;
+      /* eslint-enable functional/no-let */
+      const onClose = (): void => {
+        isDisconnected = true;
+      };
+      res.once("close", onClose);
+
+      res.status(200).type("json");
+      await writeChunk(res, `{"items":[`);
+      while (!isDisconnected) {
+        try {
+          const page = await i.next();
+          if (page.done === true) {
+            break;
+          }
+          for (const item of page.value) {
+            if (isDisconnected) {
+              break;
+            }
+            const kindlessItem = Object.assign(Object.assign({}, item), {
+              kind: undefined
+            });
+            await writeChunk(
+              res,
+              `${count > 0 ? "," : ""}${JSON.stringify(kindlessItem)}`
+            );
+            count++;
+          }
+        } catch (e) {
+          maybeError = some(toCosmosErrorResponse(e));
+          break;
+        }
+      }
+      res.removeListener("close", onClose);
+
+      if (isDisconnected) {
+        // release the resources held by the iterator, if supported
+        await (i.return ? i.return() : Promise.resolve());
+        return res;
+      }
+
+      const errorTrailer = maybeError
+        .map(
+          error =>
+            `,"error":${JSON.stringify({
+              detail: describeCosmosError(error),
+              kind: error.kind
+            })}`
+        )
+        .getOrElse("");
+      res.end(`],"page_size":${count}${errorTrailer}}`);
+      return res;
+    },
+    kind: "IResponseSuccessJsonStreamIterator",
+    value: {} as T
+  };
+}
+
 /**
  * Interface for a response describing a database error.
  */
@@ -64,11 +263,106 @@ export const ResponseErrorQuery = (
 ): IResponseErrorQuery => ({
   ...ResponseErrorGeneric(
     HttpStatusCodeEnum.HTTP_STATUS_500,
-    `Query error (${error.kind})$` +
-      (error.kind === "COSMOS_ERROR_RESPONSE"
-        ? ` (${error.error.code}/${error.error.message})`
-        : ""),
+    describeCosmosError(error),
     detail
   ),
   kind: "IResponseErrorQuery"
 });
+
+/**
+ * Interface for a response describing a failed precondition,
+ * i.e. the resource has been modified since it was read.
+ */
+export type IResponseErrorPreconditionFailed = IResponse<
+  "IResponseErrorPreconditionFailed"
+>;
+
+/**
+ * Returns a response describing a failed precondition.
+ *
+ * @param detail The error message
+ */
+export const ResponseErrorPreconditionFailed = (
+  detail: string
+): IResponseErrorPreconditionFailed => ({
+  ...ResponseErrorGeneric(
+    HttpStatusCodeEnum.HTTP_STATUS_412,
+    "Precondition Failed",
+    detail
+  ),
+  kind: "IResponseErrorPreconditionFailed"
+});
+
+/**
+ * The responses a database error is mapped to
+ */
+export type CosmosErrorsResponse =
+  | IResponseErrorConflict
+  | IResponseErrorInternal
+  | IResponseErrorNotFound
+  | IResponseErrorPreconditionFailed
+  | IResponseErrorQuery
+  | IResponseErrorTooManyRequests;
+
+/**
+ * Returns a too many requests response which tells the client
+ * when to retry, if known.
+ */
+const ResponseErrorTooManyRequestsRetryAfter = (
+  detail: string,
+  retryAfterInMs?: number
+): IResponseErrorTooManyRequests => {
+  const response = ResponseErrorTooManyRequests(detail);
+  return retryAfterInMs === undefined
+    ? response
+    : {
+        ...response,
+        // eslint-disable-next-line @typescript-eslint/explicit-function-return-type
+        apply: res =>
+          response.apply(
+            // Retry-After is expressed in seconds
+            res.set("Retry-After", String(Math.ceil(retryAfterInMs / 1000)))
+          )
+      };
+};
+
+/**
+ * Returns the response describing a database error:
+ * error responses from the db engine are mapped to the corresponding status,
+ * while decoding errors are reported without the decoded values
+ * as they may contain personal data.
+ *
+ * @param detail The error message
+ */
+export const ResponseErrorFromCosmosErrors = (detail: string) => (
+  error: CosmosErrors
+): CosmosErrorsResponse => {
+  switch (error.kind) {
+    case "COSMOS_CONFLICT_RESPONSE":
+      return ResponseErrorPreconditionFailed(detail);
+    case "COSMOS_DECODING_ERROR":
+      return ResponseErrorInternal(
+        `${detail}: ${readableReport(
+          error.error.map(_ => ({ ..._, value: "<redacted>" }))
+        )}`
+      );
+    case "COSMOS_ERROR_RESPONSE":
+      switch (error.error.code) {
+        case HttpStatusCodeEnum.HTTP_STATUS_404:
+          return ResponseErrorNotFound("Not Found", detail);
+        case HttpStatusCodeEnum.HTTP_STATUS_409:
+          return ResponseErrorConflict(detail);
+        case HttpStatusCodeEnum.HTTP_STATUS_412:
+          return ResponseErrorPreconditionFailed(detail);
+        case HttpStatusCodeEnum.HTTP_STATUS_429:
+          return ResponseErrorTooManyRequestsRetryAfter(
+            detail,
+            error.error.retryAfterInMs
+          );
+        default:
+          return ResponseErrorQuery(detail, error);
+      }
+    default:
+      return ResponseErrorQuery(detail, error);
+  }
+};
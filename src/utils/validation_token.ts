@@ -0,0 +1,283 @@
+/**
+ * Lifecycle of the tokens used to validate the email address of a citizen.
+ *
+ * A token is made of an id and a random validator, joined by a colon:
+ * the id is the PartitionKey of the stored ValidationTokenEntity, while
+ * the validator is stored hashed as its RowKey, so that the tokens
+ * cannot be recovered from the table.
+ */
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+import * as azureStorage from "azure-storage";
+
+import { array, flatten } from "fp-ts/lib/Array";
+import { either, isRight, toError } from "fp-ts/lib/Either";
+import {
+  fromEither,
+  fromLeft,
+  TaskEither,
+  taskEither,
+  taskEitherSeq,
+  tryCatch
+} from "fp-ts/lib/TaskEither";
+
+import { readableReport } from "@pagopa/ts-commons/lib/reporters";
+import { NonEmptyString } from "@pagopa/ts-commons/lib/strings";
+
+import { EmailAddress } from "../../generated/definitions/EmailAddress";
+import { FiscalCode } from "../../generated/definitions/FiscalCode";
+import { ValidationTokenEntity } from "../entities/validation_token";
+import { asyncIterableToArray, fromPromiseEither } from "./async";
+import {
+  deleteTableEntity,
+  queryTableEntities,
+  upsertTableEntity
+} from "./azure_storage";
+import { ulidGenerator } from "./strings";
+
+const VALIDATION_TOKEN_SEPARATOR = ":";
+const VALIDATOR_LENGTH = 32;
+
+// The token is not valid, or it has already been consumed
+export const ValidationTokenInvalid = {
+  kind: "VALIDATION_TOKEN_INVALID"
+} as const;
+
+// The token is valid but its InvalidAfter date has passed
+export const ValidationTokenExpired = {
+  kind: "VALIDATION_TOKEN_EXPIRED"
+} as const;
+
+// An error while reading or writing the tokens table
+export const ValidationTokenStorageError = (error: Error) =>
+  ({
+    error,
+    kind: "VALIDATION_TOKEN_STORAGE_ERROR"
+  } as const);
+
+export type ValidationTokenErrors =
+  | typeof ValidationTokenInvalid
+  | typeof ValidationTokenExpired
+  | ReturnType<typeof ValidationTokenStorageError>;
+
+/**
+ * A token just created, to be sent to the citizen
+ */
+export interface IValidationToken {
+  readonly entity: ValidationTokenEntity;
+  // the token id and the validator, joined by a colon
+  readonly token: NonEmptyString;
+}
+
+const hashValidator = (validator: string): string =>
+  createHash("sha256")
+    .update(validator)
+    .digest("hex");
+
+/**
+ * Compares two strings in a time which depends
+ * on their length only, not on their content
+ */
+const constantTimeEquals = (a: string, b: string): boolean => {
+  const aBuffer = Buffer.from(a);
+  const bBuffer = Buffer.from(b);
+  return aBuffer.length === bBuffer.length && timingSafeEqual(aBuffer, bBuffer);
+};
+
+const flattenPages = <A>(
+  pages: ReadonlyArray<ReadonlyArray<A>>
+  // eslint-disable-next-line functional/prefer-readonly-type
+): A[] => flatten(pages.map(page => [...page]));
+
+/**
+ * Selects the tokens whose InvalidAfter date is not after now: the date
+ * is compared both as an Edm.DateTime and as an ISO string, since a token
+ * may have been stored with either representation
+ */
+const getExpiredFilter = (now: Date): string =>
+  azureStorage.TableQuery.combineFilters(
+    azureStorage.TableQuery.dateFilter(
+      "InvalidAfter",
+      azureStorage.TableUtilities.QueryComparisons.LESS_THAN_OR_EQUAL,
+      now
+    ),
+    azureStorage.TableUtilities.TableOperators.OR,
+    azureStorage.TableQuery.stringFilter(
+      "InvalidAfter",
+      azureStorage.TableUtilities.QueryComparisons.LESS_THAN_OR_EQUAL,
+      now.toISOString()
+    )
+  );
+
+/**
+ * Generates a new token for an email address, valid for ttlInSeconds
+ *
+ * @param email the email address to be validated
+ * @param fiscalCode the fiscal code of the owner of the address
+ * @param ttlInSeconds how long the token is valid
+ * @param now the time the token is created at
+ */
+export const generateValidationToken = (
+  email: EmailAddress,
+  fiscalCode: FiscalCode,
+  ttlInSeconds: number,
+  now: Date = new Date()
+): IValidationToken => {
+  const tokenId = ulidGenerator();
+  const validator = randomBytes(VALIDATOR_LENGTH).toString("hex");
+  return {
+    entity: {
+      Email: email,
+      FiscalCode: fiscalCode,
+      InvalidAfter: new Date(now.getTime() + ttlInSeconds * 1000),
+      PartitionKey: tokenId,
+      RowKey: hashValidator(validator)
+    },
+    token: `${tokenId}${VALIDATION_TOKEN_SEPARATOR}${validator}` as NonEmptyString
+  };
+};
+
+/**
+ * Generates and stores a new token for an email address
+ *
+ * @see generateValidationToken
+ */
+export const createValidationToken = (
+  tableService: azureStorage.TableService,
+  tableName: string,
+  email: EmailAddress,
+  fiscalCode: FiscalCode,
+  ttlInSeconds: number
+): TaskEither<ValidationTokenErrors, IValidationToken> => {
+  const validationToken = generateValidationToken(
+    email,
+    fiscalCode,
+    ttlInSeconds
+  );
+  return fromPromiseEither(() =>
+    upsertTableEntity(
+      ValidationTokenEntity,
+      tableService,
+      tableName,
+      validationToken.entity
+    )
+  )
+    .mapLeft<ValidationTokenErrors>(ValidationTokenStorageError)
+    .map(() => validationToken);
+};
+
+/**
+ * Finds the stored entity of a token, verifying its validator
+ * and its InvalidAfter date.
+ *
+ * @param tableService the Azure table service
+ * @param tableName the name of the tokens table
+ * @param token the token received from the citizen
+ * @param now the time the token is verified at
+ */
+export const verifyValidationToken = (
+  tableService: azureStorage.TableService,
+  tableName: string,
+  token: string,
+  now: Date = new Date()
+): TaskEither<ValidationTokenErrors, ValidationTokenEntity> => {
+  const [tokenId, validator] = token.split(VALIDATION_TOKEN_SEPARATOR);
+  if (!tokenId || !validator) {
+    return fromLeft(ValidationTokenInvalid);
+  }
+  const validatorHash = hashValidator(validator);
+  return tryCatch(
+    () =>
+      asyncIterableToArray(
+        queryTableEntities(
+          ValidationTokenEntity,
+          tableService,
+          tableName,
+          new azureStorage.TableQuery().where("PartitionKey eq ?", tokenId)
+        )
+      ),
+    toError
+  )
+    .mapLeft<ValidationTokenErrors>(ValidationTokenStorageError)
+    .chain(pages =>
+      fromEither(
+        array
+          .sequence(either)(flattenPages(pages))
+          .mapLeft(errs =>
+            ValidationTokenStorageError(new Error(readableReport(errs)))
+          )
+      )
+    )
+    .chain(entities => {
+      const entity = entities.find(_ =>
+        constantTimeEquals(_.RowKey, validatorHash)
+      );
+      return entity === undefined
+        ? fromLeft(ValidationTokenInvalid)
+        : entity.InvalidAfter.getTime() <= now.getTime()
+        ? fromLeft(ValidationTokenExpired)
+        : taskEither.of(entity);
+    });
+};
+
+/**
+ * Verifies a token and deletes it, so that it can be used once:
+ * when the same token is consumed concurrently, only one succeeds.
+ *
+ * @see verifyValidationToken
+ */
+export const consumeValidationToken = (
+  tableService: azureStorage.TableService,
+  tableName: string,
+  token: string,
+  now: Date = new Date()
+): TaskEither<ValidationTokenErrors, ValidationTokenEntity> =>
+  verifyValidationToken(tableService, tableName, token, now).chain(entity =>
+    fromPromiseEither(() => deleteTableEntity(tableService, tableName, entity))
+      .mapLeft<ValidationTokenErrors>(ValidationTokenStorageError)
+      .chain(deleted =>
+        deleted
+          ? taskEither.of<ValidationTokenErrors, ValidationTokenEntity>(entity)
+          : fromLeft(ValidationTokenInvalid)
+      )
+  );
+
+/**
+ * Deletes the tokens whose InvalidAfter date has passed
+ *
+ * @param tableService the Azure table service
+ * @param tableName the name of the tokens table
+ * @param now the time the tokens are expired at
+ *
+ * @returns the number of deleted tokens
+ */
+export const purgeExpiredValidationTokens = (
+  tableService: azureStorage.TableService,
+  tableName: string,
+  now: Date = new Date()
+): TaskEither<ValidationTokenErrors, number> =>
+  tryCatch(
+    () =>
+      asyncIterableToArray(
+        queryTableEntities(
+          ValidationTokenEntity,
+          tableService,
+          tableName,
+          new azureStorage.TableQuery().where(getExpiredFilter(now))
+        )
+      ),
+    toError
+  )
+    .mapLeft<ValidationTokenErrors>(ValidationTokenStorageError)
+    .chain(pages =>
+      array
+        .traverse(taskEitherSeq)(
+          // the entities that cannot be decoded are left untouched
+          flattenPages(pages).filter(isRight),
+          ({ value: entity }) =>
+            fromPromiseEither(() =>
+              deleteTableEntity(tableService, tableName, entity)
+            ).mapLeft<ValidationTokenErrors>(ValidationTokenStorageError)
+        )
+        .map(deleted => deleted.filter(_ => _).length)
+    );